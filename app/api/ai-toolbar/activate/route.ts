@@ -0,0 +1 @@
+export { DELETE, POST } from "@/registry/new-york/blocks/toolbar/api/activate/route";
@@ -0,0 +1 @@
+export { DELETE, GET, POST } from "@/registry/new-york/blocks/toolbar/api/route";
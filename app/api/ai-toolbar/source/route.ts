@@ -0,0 +1 @@
+export { GET } from "@/registry/new-york/blocks/toolbar/api/source/route";
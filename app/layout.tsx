@@ -1,7 +1,7 @@
 import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
-import AIAnnotationToolbar from "@/registry/new-york/blocks/toolbar/ai-toolbar";
+import AIToolbarLoader from "@/registry/new-york/blocks/toolbar/ai-toolbar-loader";
 
 const geistSans = Geist({
 	variable: "--font-geist-sans",
@@ -18,6 +18,8 @@ export const metadata: Metadata = {
 	description: "Generated by create next app",
 };
 
+const isDevelopment = process.env.NODE_ENV === "development";
+
 export default function RootLayout({
 	children,
 }: Readonly<{
@@ -28,7 +30,19 @@ export default function RootLayout({
 			<body
 				className={`${geistSans.variable} ${geistMono.variable} antialiased`}
 			>
-				{process.env.NODE_ENV === "development" && <AIAnnotationToolbar />}
+				<AIToolbarLoader
+					enabled={isDevelopment}
+					{...(isDevelopment && {
+						bridgeUrl: "/api/ai-toolbar",
+						projectRoot: process.cwd(),
+						sourceSnippets: { url: "/api/ai-toolbar/source", mode: "element" },
+					})}
+					screenshots
+					styleContext
+					designTokens
+					accessibility
+					componentState
+				/>
 				{children}
 			</body>
 		</html>
@@ -1,7 +1,9 @@
 import type { NextConfig } from "next";
 
+import { withAISource } from "./registry/new-york/blocks/toolbar/compiler/with-ai-source";
+
 const nextConfig: NextConfig = {
   /* config options here */
 };
 
-export default nextConfig;
+export default withAISource(nextConfig);
@@ -0,0 +1,55 @@
+// Prints a toolbar activation link for preview and staging deployments:
+//
+//   AI_TOOLBAR_SECRET=… npx tsx components/ai-toolbar/activation/create-token.ts [hours]
+//
+// The secret must match the deployment's AI_TOOLBAR_SECRET. Links expire
+// after 24 hours unless another lifetime is given.
+const DEFAULT_HOURS = 24;
+const MIN_SECRET_LENGTH = 16;
+
+const toBase64Url = (bytes: ArrayBuffer) =>
+	Buffer.from(bytes).toString("base64url");
+
+const createActivationToken = async (
+	secret: string,
+	lifetimeSeconds: number,
+) => {
+	const expiresAt = Math.floor(Date.now() / 1000) + lifetimeSeconds;
+	const encoder = new TextEncoder();
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["sign"],
+	);
+	const signature = await crypto.subtle.sign(
+		"HMAC",
+		key,
+		encoder.encode(`ai-toolbar:${expiresAt}`),
+	);
+	return `${expiresAt}.${toBase64Url(signature)}`;
+};
+
+const main = async () => {
+	const secret = process.env.AI_TOOLBAR_SECRET;
+	if (!secret || secret.length < MIN_SECRET_LENGTH) {
+		throw new Error(
+			`Set AI_TOOLBAR_SECRET to at least ${MIN_SECRET_LENGTH} characters`,
+		);
+	}
+
+	const hours = Number(process.argv[2] ?? DEFAULT_HOURS);
+	if (!Number.isFinite(hours) || hours <= 0) {
+		throw new Error("The lifetime must be a positive number of hours");
+	}
+
+	const token = await createActivationToken(secret, Math.round(hours * 3600));
+	console.log(token);
+	console.log(`\nAppend to any page URL: ?ai-toolbar=${token}`);
+};
+
+main().catch((err) => {
+	console.error("[ai-toolbar] Failed to create token:", err.message);
+	process.exit(1);
+});
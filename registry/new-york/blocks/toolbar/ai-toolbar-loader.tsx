@@ -0,0 +1,90 @@
+"use client";
+
+import { lazy, Suspense, useEffect, useState } from "react";
+
+import type { AIToolbarProps } from "./ai-toolbar";
+
+// Light enough to import statically, unlike the toolbar itself
+export { AIToolbarProvider, useAIToolbar } from "./hooks/use-ai-toolbar";
+
+// The toolbar and everything it pulls in (bippy, formatters, screenshots)
+// live in a separate chunk that only loads once the toolbar is enabled
+const AIToolbar = lazy(() => import("./ai-toolbar"));
+
+// Query parameter and cookie carrying the signed activation token
+const ACTIVATION_PARAM = "ai-toolbar";
+const ACTIVATION_COOKIE = "ai-toolbar";
+
+export interface AIToolbarLoaderProps extends AIToolbarProps {
+	// Load without a token, e.g. `process.env.NODE_ENV === "development"`
+	enabled?: boolean;
+	// Route handler that verifies activation tokens
+	activateUrl?: string;
+}
+
+const readCookie = (name: string) =>
+	document.cookie
+		.split("; ")
+		.find((cookie) => cookie.startsWith(`${name}=`))
+		?.slice(name.length + 1) ?? null;
+
+// Token from `?ai-toolbar=…`, removed from the address bar so it isn't
+// shared by accident, or from the cookie set by an earlier activation
+const takeToken = () => {
+	const url = new URL(window.location.href);
+	const param = url.searchParams.get(ACTIVATION_PARAM);
+	if (param === null) return readCookie(ACTIVATION_COOKIE);
+
+	url.searchParams.delete(ACTIVATION_PARAM);
+	window.history.replaceState(window.history.state, "", url);
+	return param;
+};
+
+// Renders the toolbar when `enabled`, or after `activateUrl` accepts the
+// token from the URL or cookie. `?ai-toolbar=off` turns it off again.
+export const AIToolbarLoader = ({
+	enabled = false,
+	activateUrl = "/api/ai-toolbar/activate",
+	...props
+}: AIToolbarLoaderProps) => {
+	const [activated, setActivated] = useState(false);
+
+	useEffect(() => {
+		if (enabled) return;
+
+		const token = takeToken();
+		if (!token) return;
+		if (token === "off") {
+			fetch(activateUrl, { method: "DELETE" }).catch(() => {});
+			return;
+		}
+
+		let cancelled = false;
+		fetch(activateUrl, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ token }),
+		})
+			.then((response) => (response.ok ? response.json() : null))
+			.then((result: { active?: boolean } | null) => {
+				if (!cancelled && result?.active) setActivated(true);
+			})
+			.catch((err) => {
+				console.warn("Failed to verify AI toolbar activation:", err);
+			});
+
+		return () => {
+			cancelled = true;
+		};
+	}, [enabled, activateUrl]);
+
+	if (!enabled && !activated) return null;
+
+	return (
+		<Suspense fallback={null}>
+			<AIToolbar {...props} />
+		</Suspense>
+	);
+};
+
+export default AIToolbarLoader;
@@ -1,58 +1,224 @@
 "use client";
 
-import { Check, GitBranch, MousePointer2 } from "lucide-react";
-import { useCallback, useMemo, useRef, useState, useEffect } from "react";
+import { Box, Check, GitBranch, MousePointer2, Trash2 } from "lucide-react";
+import {
+	type Ref,
+	useCallback,
+	useImperativeHandle,
+	useMemo,
+	useRef,
+	useState,
+	useEffect,
+} from "react";
+import { createPortal } from "react-dom";
 
-import { useDrawSelect, useSingleSelect } from "./hooks/use-bippy";
+import { useRegisterAIToolbar } from "./hooks/use-ai-toolbar";
+import {
+	getFiberInfo,
+	type SelectGranularity,
+	useDrawSelect,
+	useSingleSelect,
+} from "./hooks/use-bippy";
+import { useShadowRoot } from "./hooks/use-shadow-root";
+import { useTrackedRects } from "./hooks/use-tracked-rects";
+import {
+	clearBridgeQueue,
+	fetchBridgeQueue,
+	postToBridge,
+} from "./lib/bridge";
+import {
+	annotationsToJson,
+	builtInFormatters,
+	markdownFormatter,
+	type PromptFormatter,
+} from "./lib/formatters";
+import {
+	DEFAULT_HOTKEYS,
+	formatHotkey,
+	type HotkeyMap,
+	isEditableTarget,
+	matchesHotkey,
+} from "./lib/hotkeys";
+import {
+	DEFAULT_SESSION_KEY,
+	loadSession,
+	reattachAnnotations,
+	saveSession,
+	subscribeToRoute,
+	withLocation,
+} from "./lib/session";
+import {
+	blobToDataUrl,
+	captureRegion,
+	dataUrlToBlob,
+	type ScreenshotOptions,
+} from "./lib/screenshot";
+import {
+	DEFAULT_REDACTION_RULES,
+	type RedactionRule,
+	type SerializeOptions,
+} from "./lib/serialize";
+import { type SourceSnippetOptions, withSourceSnippets } from "./lib/source";
+import type {
+	AIToolbarEvents,
+	AIToolbarHandle,
+	AnnotationData,
+	CopyEvent,
+	InspectorInfo,
+	OutputTarget,
+	Position,
+	SelectionRect,
+	ToolbarDock,
+	ToolbarMode,
+	ToolbarTheme,
+} from "./types";
+
+export {
+	builtInFormatters,
+	createTemplateFormatter,
+	jsonFormatter,
+	markdownFormatter,
+	xmlFormatter,
+} from "./lib/formatters";
+export type {
+	FormatOptions,
+	PromptFormatter,
+	PromptTemplate,
+} from "./lib/formatters";
+export { DEFAULT_REDACTION_RULES } from "./lib/serialize";
+export type { RedactionRule, SerializeOptions } from "./lib/serialize";
+export type {
+	AIToolbarEvents,
+	AIToolbarHandle,
+	AnnotationData,
+	CopyEvent,
+	OutputTarget,
+	ToolbarDock,
+	ToolbarMode,
+	ToolbarTheme,
+} from "./types";
 
 // TypeScript interfaces
-interface FiberInfo {
-	componentName: string;
-	props: Record<string, unknown>;
-	source?: {
-		fileName: string;
-		lineNumber: number;
-		columnNumber: number;
-	} | null;
+interface HighlightOverlayProps {
+	rect: DOMRect | SelectionRect | null;
+	color?: "primary" | "secondary";
+	style?: "dashed" | "solid";
+	// The tracked element is gone or hidden
+	detached?: boolean;
 }
 
-interface AnnotationData {
-	element?: Element;
-	elements?: Element[];
+interface InspectorLabelProps {
 	rect: DOMRect | SelectionRect;
-	fiberInfo: FiberInfo | FiberInfo[] | null;
-	id: number;
-	mode?: string;
+	info: InspectorInfo | null;
 }
 
-interface Position {
-	x: number;
-	y: number;
+interface SelectionRectangleProps {
+	startPos: Position | null;
+	currentPos: Position | null;
 }
 
-interface SelectionRect {
-	left: number;
-	top: number;
-	width: number;
-	height: number;
+interface CommentPopoverProps {
+	annotation: AnnotationData;
+	// Live position of the annotated element, defaults to the captured rect
+	rect?: DOMRect | SelectionRect;
+	onChange: (comment: string) => void;
+	onClose: () => void;
+	onRemove: () => void;
 }
 
-interface HighlightOverlayProps {
-	rect: DOMRect | SelectionRect | null;
-	color?: "primary" | "secondary";
-	style?: "dashed" | "solid";
+export interface AIToolbarProps {
+	// Modes offered in the toolbar, in this order
+	modes?: ToolbarMode[];
+	// Tooltip text per mode
+	tooltips?: Partial<Record<ToolbarMode, string>>;
+	// Where the toolbar starts: docked to a screen edge or at fixed coordinates
+	position?: ToolbarDock | Position;
+	// Color scheme of the toolbar UI, "system" follows prefers-color-scheme
+	theme?: ToolbarTheme;
+	// Formats offered in the toolbar, the first one is used by default
+	formatters?: PromptFormatter[];
+	defaultFormat?: string;
+	// Dev route handler that queues annotations on disk, e.g. "/api/ai-toolbar"
+	bridgeUrl?: string;
+	// Embed source lines around each selection, read by the dev source route
+	sourceSnippets?: SourceSnippetOptions;
+	// Absolute project path on disk, used to make source paths repo-relative
+	projectRoot?: string;
+	// How many parent components to report above each selection, 0 for none
+	ancestorDepth?: number;
+	// Keyboard shortcuts, merged over the defaults
+	hotkeys?: Partial<HotkeyMap>;
+	// Snap single and multi selection to whole components. Alt+wheel steps
+	// through the component hierarchy.
+	granularity?: SelectGranularity;
+	// Keep multi-comment selections in localStorage across reloads and
+	// navigations. A string sets the storage key.
+	persistSession?: boolean | string;
+	// Attach a PNG of the selected region to the clipboard and the bridge
+	screenshots?: boolean | ScreenshotOptions;
+	// Include classes, computed styles and the box model in prompts
+	styleContext?: boolean;
+	// Say which theme tokens and Tailwind steps the element's values map to
+	designTokens?: boolean;
+	// Add role, accessible name, focus and contrast info plus a11y checks
+	accessibility?: boolean;
+	// Attach hook values and consumed context values of the component
+	componentState?: boolean;
+	// Size limits for props, state and other runtime values in prompts
+	serialize?: Partial<Omit<SerializeOptions, "redact">>;
+	// Keys whose values are masked in prompts, pass [] to send everything
+	redact?: RedactionRule[];
+	// Where finished prompts go. "bridge" needs `bridgeUrl` and "callback"
+	// needs `onCopy`.
+	outputs?: OutputTarget[];
+	// Called for every new selection, before anything is copied
+	onAnnotate?: (annotation: AnnotationData) => void;
+	// Called with every prompt the toolbar produces
+	onCopy?: (event: CopyEvent) => void;
+	// Milliseconds the confirmation toast stays up, 0 hides it
+	toastDuration?: number;
+	// Milliseconds a single selection stays highlighted after copying
+	clearDelay?: number;
+	// Imperative handle, the same object `useAIToolbar()` returns
+	ref?: Ref<AIToolbarHandle>;
 }
 
-interface SelectionRectangleProps {
-	startPos: Position | null;
-	currentPos: Position | null;
-}
+const DEFAULT_MODES: ToolbarMode[] = [
+	"single-select",
+	"multi-comment",
+	"draw-select",
+];
+const DEFAULT_OUTPUTS: OutputTarget[] = ["clipboard", "bridge", "callback"];
+const DEFAULT_TOAST_DURATION = 3000;
+const DEFAULT_CLEAR_DELAY = 500;
+// Distance between a docked toolbar and the viewport edges
+const DOCK_MARGIN = 32;
 
 interface ToastProps {
 	message: string;
 	count?: number;
 }
 
+// Top-left corner of a toolbar of the given size at its initial position
+const getDockPosition = (
+	position: ToolbarDock | Position,
+	toolbar: DOMRect,
+): Position => {
+	if (typeof position !== "string") return position;
+	const [vertical, horizontal] = position.split("-");
+	const x =
+		horizontal === "left"
+			? DOCK_MARGIN
+			: horizontal === "right"
+				? window.innerWidth - toolbar.width - DOCK_MARGIN
+				: window.innerWidth / 2 - toolbar.width / 2;
+	const y =
+		vertical === "top"
+			? DOCK_MARGIN
+			: window.innerHeight - toolbar.height - DOCK_MARGIN;
+	return { x, y };
+};
+
 // Helper function from hooks
 const getSelectionRect = (
 	start: Position | null,
@@ -67,53 +233,17 @@ const getSelectionRect = (
 	};
 };
 
-const annotationToPrompt = (annotation: AnnotationData, idx?: number) => {
-	const fiberInfo = Array.isArray(annotation.fiberInfo)
-		? annotation.fiberInfo[0]
-		: annotation.fiberInfo;
-
-	console.log({ fiberInfo });
-	const componentName = fiberInfo?.componentName || "unknown";
-	const source = fiberInfo?.source;
-	const props = fiberInfo?.props;
-
-	let contextInfo = `[Component: <${componentName}>]`;
-
-	if (source) {
-		contextInfo += `\n[Location: ${source.fileName}:${source.lineNumber}:${source.columnNumber}]`;
-	}
-
-	if (props && Object.keys(props).length > 0) {
-		const propsList = Object.entries(props)
-			.slice(0, 5)
-			.map(
-				([key, val]) => `${key}=${typeof val === "string" ? `"${val}"` : val}`,
-			)
-			.join(", ");
-		contextInfo += `\n[Props: ${propsList}${Object.keys(props).length > 5 ? "..." : ""}]`;
-	}
-	return `
-<referenced_element>
-${contextInfo}
-</referenced_element>
-	`;
-};
-
 const Toast: React.FC<ToastProps> = ({ message, count }) => {
 	return (
-		<div className="fixed top-8 left-1/2 -translate-x-1/2 z-1000001 animate-in fade-in slide-in-from-top-4 duration-300">
-			<div className="bg-card border rounded-xl shadow-2xl px-6 py-4 flex items-center gap-3 min-w-[300px]">
-				<div className="shrink-0 w-8 h-8 bg-primary/10 rounded-full flex items-center justify-center">
-					<Check className="w-5 h-5 text-primary" />
-				</div>
-				<div className="flex-1">
-					<p className="text-sm font-medium text-foreground">{message}</p>
-					{count && count > 1 && (
-						<p className="text-xs text-muted-foreground mt-0.5">
-							{count} annotations copied
-						</p>
-					)}
-				</div>
+		<div className="toast">
+			<div className="toast-icon">
+				<Check size={20} />
+			</div>
+			<div>
+				<p className="toast-message">{message}</p>
+				{count && count > 1 && (
+					<p className="toast-detail">{count} annotations copied</p>
+				)}
 			</div>
 		</div>
 	);
@@ -123,26 +253,116 @@ const HighlightOverlay: React.FC<HighlightOverlayProps> = ({
 	rect,
 	color = "primary",
 	style = "dashed",
+	detached = false,
 }) => {
 	if (!rect) return null;
 
-	const colorMap: Record<string, string> = {
-		primary: "border-primary bg-primary/10",
-		secondary: "border-secondary bg-secondary/10",
-	};
-
 	return (
 		<div
-			className={`fixed pointer-events-none z-999998 transition-all ${colorMap[color]}`}
+			className={`highlight ${
+				detached ? "highlight-detached" : `highlight-${color}`
+			}`}
 			style={{
 				left: `${rect.left}px`,
 				top: `${rect.top}px`,
 				width: `${rect.width}px`,
 				height: `${rect.height}px`,
-				borderWidth: "2px",
-				borderStyle: style,
+				borderStyle: detached ? "dotted" : style,
 			}}
-		/>
+		>
+			{detached && <span className="highlight-badge">detached</span>}
+		</div>
+	);
+};
+
+// DevTools-style label pinned to the hover highlight
+const InspectorLabel: React.FC<InspectorLabelProps> = ({ rect, info }) => {
+	const height = 24;
+	const maxWidth = 480;
+
+	// Sit above the highlight, or inside its top edge when there is no room
+	const top = rect.top - height - 4 >= 0 ? rect.top - height - 4 : rect.top + 4;
+	const left = Math.max(4, Math.min(rect.left, window.innerWidth - maxWidth));
+
+	return (
+		<div
+			className="inspector-label"
+			style={{
+				left: `${left}px`,
+				top: `${top}px`,
+				height: `${height}px`,
+				maxWidth: `${maxWidth}px`,
+			}}
+		>
+			<span className="inspector-name">{info?.componentName ?? "…"}</span>
+			{info?.ownerName && info.ownerName !== info.componentName && (
+				<span className="muted">in {info.ownerName}</span>
+			)}
+			{info?.source && (
+				<span className="truncate mono muted">
+					{info.source.fileName}:{info.source.lineNumber}
+				</span>
+			)}
+			<span className="mono muted">
+				{Math.round(rect.width)}×{Math.round(rect.height)}
+			</span>
+		</div>
+	);
+};
+
+const CommentPopover: React.FC<CommentPopoverProps> = ({
+	annotation,
+	rect = annotation.rect,
+	onChange,
+	onClose,
+	onRemove,
+}) => {
+	const width = 288;
+
+	// Open just below the highlight, kept inside the viewport
+	const left = Math.max(8, Math.min(rect.left, window.innerWidth - width - 8));
+	const top =
+		rect.top + rect.height + 8 + 160 > window.innerHeight
+			? Math.max(8, rect.top - 160 - 8)
+			: rect.top + rect.height + 8;
+
+	const handleKeyDown = (e: React.KeyboardEvent<HTMLTextAreaElement>) => {
+		if (e.key === "Escape" || (e.key === "Enter" && (e.metaKey || e.ctrlKey))) {
+			e.preventDefault();
+			onClose();
+		}
+	};
+
+	return (
+		<div
+			className="popover"
+			style={{ left: `${left}px`, top: `${top}px`, width: `${width}px` }}
+		>
+			<textarea
+				autoFocus
+				value={annotation.comment ?? ""}
+				onChange={(e) => onChange(e.target.value)}
+				onKeyDown={handleKeyDown}
+				placeholder="What should change here?"
+				className="popover-input"
+			/>
+			<div className="popover-actions">
+				<button
+					type={"button"}
+					className="button button-ghost"
+					onClick={onRemove}
+				>
+					Remove
+				</button>
+				<button
+					type={"button"}
+					className="button button-primary"
+					onClick={onClose}
+				>
+					Done
+				</button>
+			</div>
+		</div>
 	);
 };
 
@@ -159,7 +379,7 @@ const SelectionRectangle: React.FC<SelectionRectangleProps> = ({
 
 	return (
 		<div
-			className="fixed pointer-events-none z-999998 border-2 border-dashed border-purple-500 bg-purple-500/10"
+			className="selection-rect"
 			style={{
 				left: `${rect.left}px`,
 				top: `${rect.top}px`,
@@ -170,32 +390,67 @@ const SelectionRectangle: React.FC<SelectionRectangleProps> = ({
 	);
 };
 
-const AIAnnotationToolbar = () => {
-	const [mode, setMode] = useState<
-		null | "single-select" | "multi-comment" | "draw-select"
-	>(null);
-	
-	// Initialize position to bottom center (like Vercel toolbar)
+const AIAnnotationToolbar = ({
+	modes = DEFAULT_MODES,
+	tooltips,
+	position: initialPosition = "bottom-center",
+	theme = "system",
+	formatters = builtInFormatters,
+	defaultFormat,
+	bridgeUrl,
+	sourceSnippets,
+	projectRoot,
+	ancestorDepth,
+	hotkeys: hotkeyOverrides,
+	granularity = "element",
+	persistSession = true,
+	screenshots = false,
+	styleContext = false,
+	designTokens = false,
+	accessibility = false,
+	componentState = false,
+	serialize,
+	redact = DEFAULT_REDACTION_RULES,
+	outputs = DEFAULT_OUTPUTS,
+	onAnnotate,
+	onCopy,
+	toastDuration = DEFAULT_TOAST_DURATION,
+	clearDelay = DEFAULT_CLEAR_DELAY,
+	ref,
+}: AIToolbarProps = {}) => {
+	const [mode, setMode] = useState<ToolbarMode | null>(null);
+	const [formatId, setFormatId] = useState(
+		defaultFormat ?? formatters[0]?.id,
+	);
+
+	// Placed at `initialPosition` once the toolbar has been measured
 	const [position, setPosition] = useState({ x: 0, y: 0 });
 	const [isDragging, setIsDragging] = useState(false);
 	const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
 	const [annotations, setAnnotations] = useState<AnnotationData[]>([]);
+	const [commentingId, setCommentingId] = useState<number | null>(null);
 	const [showToast, setShowToast] = useState(false);
 	const [toastMessage, setToastMessage] = useState("");
 	const [annotationCount, setAnnotationCount] = useState(0);
+	const [queuedCount, setQueuedCount] = useState(0);
+	const [route, setRoute] = useState<string | null>(null);
+	const [sessionLoaded, setSessionLoaded] = useState(false);
 
+	const shadowRoot = useShadowRoot();
 	const toolbarRef = useRef<HTMLDivElement>(null);
 	const toastTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+	const initialPositionRef = useRef(initialPosition);
+	const listenersRef = useRef<{
+		[E in keyof AIToolbarEvents]: Set<(payload: AIToolbarEvents[E]) => void>;
+	}>({ annotate: new Set(), copy: new Set() });
 
-	// Set initial position to bottom center
+	// Set initial position
 	useEffect(() => {
 		if (typeof window !== "undefined" && toolbarRef.current) {
 			const updatePosition = () => {
 				const toolbarRect = toolbarRef.current?.getBoundingClientRect();
 				if (toolbarRect) {
-					const x = window.innerWidth / 2 - toolbarRect.width / 2;
-					const y = window.innerHeight - toolbarRect.height - 32; // 32px from bottom
-					setPosition({ x, y });
+					setPosition(getDockPosition(initialPositionRef.current, toolbarRect));
 				}
 			};
 
@@ -210,44 +465,222 @@ const AIAnnotationToolbar = () => {
 				window.removeEventListener('resize', updatePosition);
 			};
 		}
+	}, [shadowRoot]);
+
+	const sessionKey =
+		typeof persistSession === "string" ? persistSession : DEFAULT_SESSION_KEY;
+
+	// Track client-side navigations so annotations can be grouped by route
+	useEffect(() => {
+		setRoute(window.location.pathname);
+		return subscribeToRoute(setRoute);
 	}, []);
 
-	const tools = useMemo(
-		() => [
+	const canRestore = !!persistSession && modes.includes("multi-comment");
+
+	// Restore the previous multi-comment session
+	useEffect(() => {
+		if (!canRestore) return;
+		const restored = loadSession(sessionKey);
+		if (restored.length > 0) {
+			setAnnotations(reattachAnnotations(restored, window.location.pathname));
+			setMode("multi-comment");
+		}
+		setSessionLoaded(true);
+	}, [canRestore, sessionKey]);
+
+	const formatOptions = useMemo(
+		() => ({ serialize: { ...serialize, redact } }),
+		[serialize, redact],
+	);
+
+	// Stored sessions go through the same redaction and size limits as prompts
+	useEffect(() => {
+		if (canRestore && sessionLoaded) {
+			saveSession(annotations, sessionKey, formatOptions);
+		}
+	}, [canRestore, sessionLoaded, sessionKey, annotations, formatOptions]);
+
+	// Re-find elements once the new route has rendered
+	useEffect(() => {
+		if (!route) return;
+		const frame = requestAnimationFrame(() => {
+			setAnnotations((prev) =>
+				prev.length > 0 ? reattachAnnotations(prev, route) : prev,
+			);
+		});
+		return () => cancelAnimationFrame(frame);
+	}, [route]);
+
+	const routeAnnotations = useMemo(
+		() => annotations.filter((annotation) => annotation.route === route),
+		[annotations, route],
+	);
+
+	// Persistent highlights follow their elements on scroll and re-render
+	const trackedRects = useTrackedRects(routeAnnotations);
+
+	const routeCount = useMemo(
+		() => new Set(annotations.map((ann) => ann.route)).size,
+		[annotations],
+	);
+
+	const hotkeys = useMemo(
+		() => ({ ...DEFAULT_HOTKEYS, ...hotkeyOverrides }),
+		[hotkeyOverrides],
+	);
+
+	const tools = useMemo(() => {
+		const all = [
 			{
 				id: "single-select" as const,
 				icon: MousePointer2,
 				label: "Single Select",
 				tooltip: "Click elements to copy context",
+				hotkey: hotkeys.singleSelect,
 			},
 			{
 				id: "multi-comment" as const,
 				icon: GitBranch,
 				label: "Multi Comment",
 				tooltip: "Add multiple annotations",
+				hotkey: hotkeys.multiComment,
 			},
-			// {
-			// 	id: "draw-select" as const,
-			// 	icon: Box,
-			// 	label: "Draw Select",
-			// 	tooltip: "Draw rectangle to copy context",
-			// },
-		],
+			{
+				id: "draw-select" as const,
+				icon: Box,
+				label: "Draw Select",
+				tooltip: "Draw rectangle to copy context",
+				hotkey: hotkeys.drawSelect,
+			},
+		];
+		return modes.flatMap((id) => {
+			const tool = all.find((t) => t.id === id);
+			return tool ? [{ ...tool, tooltip: tooltips?.[id] ?? tool.tooltip }] : [];
+		});
+	}, [hotkeys, modes, tooltips]);
+
+	const formatter = useMemo(
+		() => formatters.find((f) => f.id === formatId) ?? formatters[0],
+		[formatters, formatId],
+	);
+
+	const emit = useCallback(
+		<E extends keyof AIToolbarEvents>(
+			event: E,
+			payload: AIToolbarEvents[E],
+		) => {
+			for (const listener of listenersRef.current[event]) listener(payload);
+		},
 		[],
 	);
 
-	const copyToClipboard = useCallback(async (text: string) => {
-		try {
-			await navigator.clipboard.writeText(text);
-			return true;
-		} catch (err) {
-			console.error("Failed to copy:", err);
-			return false;
-		}
-	}, []);
+	const subscribe = useCallback<AIToolbarHandle["subscribe"]>(
+		(event, listener) => {
+			const listeners = listenersRef.current[event];
+			listeners.add(listener);
+			return () => {
+				listeners.delete(listener);
+			};
+		},
+		[],
+	);
+
+	const formatPrompt = useCallback(
+		(items: AnnotationData[]) => formatter.format(items, formatOptions),
+		[formatter, formatOptions],
+	);
+
+	const cycleFormat = useCallback(() => {
+		const idx = formatters.findIndex((f) => f.id === formatter.id);
+		setFormatId(formatters[(idx + 1) % formatters.length].id);
+	}, [formatters, formatter]);
+
+	const copyToClipboard = useCallback(
+		async (text: string, image?: Blob | null) => {
+			try {
+				if (image && typeof ClipboardItem !== "undefined") {
+					try {
+						await navigator.clipboard.write([
+							new ClipboardItem({
+								"text/plain": new Blob([text], { type: "text/plain" }),
+								"image/png": image,
+							}),
+						]);
+						return true;
+					} catch (err) {
+						// Some browsers reject mixed items, keep the text at least
+						console.warn("Failed to copy screenshot:", err);
+					}
+				}
+				await navigator.clipboard.writeText(text);
+				return true;
+			} catch (err) {
+				console.error("Failed to copy:", err);
+				return false;
+			}
+		},
+		[],
+	);
+
+	// Load the pending bridge queue so the toolbar can show it
+	useEffect(() => {
+		if (!bridgeUrl) return;
+		fetchBridgeQueue(bridgeUrl).then((entries) => {
+			if (entries) setQueuedCount(entries.length);
+		});
+	}, [bridgeUrl]);
+
+	const sendToBridge = useCallback(
+		async (items: AnnotationData[]) => {
+			if (!bridgeUrl) return;
+			const count = await postToBridge(bridgeUrl, {
+				prompt: markdownFormatter.format(items, formatOptions),
+				annotations: annotationsToJson(items, formatOptions),
+				screenshots: items.flatMap((item) =>
+					item.screenshot
+						? [{ annotationId: item.id, dataUrl: item.screenshot }]
+						: [],
+				),
+			});
+			if (count !== null) setQueuedCount(count);
+		},
+		[bridgeUrl, formatOptions],
+	);
+
+	// Hand a finished prompt to every configured output. Resolves to whether
+	// it reached the clipboard.
+	const deliver = useCallback(
+		async (items: AnnotationData[], image: Blob | null) => {
+			const prompt = formatPrompt(items);
+			const copied =
+				outputs.includes("clipboard") && (await copyToClipboard(prompt, image));
+
+			const event = { prompt, format: formatter.id, annotations: items };
+			if (outputs.includes("bridge")) sendToBridge(items);
+			if (outputs.includes("callback")) onCopy?.(event);
+			emit("copy", event);
+			return copied;
+		},
+		[
+			outputs,
+			formatPrompt,
+			copyToClipboard,
+			sendToBridge,
+			onCopy,
+			formatter,
+			emit,
+		],
+	);
+
+	const handleClearQueue = useCallback(async () => {
+		if (!bridgeUrl) return;
+		if (await clearBridgeQueue(bridgeUrl)) setQueuedCount(0);
+	}, [bridgeUrl]);
 
 	const showToastNotification = useCallback(
 		(message: string, count: number = 1) => {
+			if (toastDuration <= 0) return;
 			if (toastTimeoutRef.current) {
 				clearTimeout(toastTimeoutRef.current);
 			}
@@ -258,39 +691,111 @@ const AIAnnotationToolbar = () => {
 
 			toastTimeoutRef.current = setTimeout(() => {
 				setShowToast(false);
-			}, 3000);
+			}, toastDuration);
 		},
-		[],
+		[toastDuration],
+	);
+
+	// Location, screenshot and source snippets for a fresh selection
+	const prepareAnnotation = useCallback(
+		async (
+			annotationData: AnnotationData,
+			annotationMode: ToolbarMode | null,
+		) => {
+			let newAnnotation: AnnotationData = withLocation({
+				...annotationData,
+				mode: annotationMode ?? undefined,
+			});
+
+			// Capture before anything async lets the page move
+			const screenshot = screenshots
+				? await captureRegion(
+						newAnnotation.rect,
+						screenshots === true ? {} : screenshots,
+					)
+				: null;
+			if (screenshot) {
+				newAnnotation.screenshot = await blobToDataUrl(screenshot);
+			}
+
+			if (sourceSnippets) {
+				newAnnotation = await withSourceSnippets(newAnnotation, sourceSnippets);
+			}
+
+			onAnnotate?.(newAnnotation);
+			emit("annotate", newAnnotation);
+			return { annotation: newAnnotation, screenshot };
+		},
+		[screenshots, sourceSnippets, onAnnotate, emit],
 	);
 
 	const handleAnnotate = useCallback(
 		async (annotationData: AnnotationData) => {
-			const newAnnotation: AnnotationData = {
-				...annotationData,
+			const { annotation: newAnnotation, screenshot } = await prepareAnnotation(
+				annotationData,
 				mode,
-			};
+			);
 
 			if (mode === "multi-comment") {
 				setAnnotations((prev) => [...prev, newAnnotation]);
+				setCommentingId(newAnnotation.id);
 			} else {
 				// Single select or draw select - copy immediately
-				const contextText = annotationToPrompt(newAnnotation);
-				const success = await copyToClipboard(contextText);
+				const success = await deliver([newAnnotation], screenshot);
 
 				if (success) {
 					showToastNotification("Context copied to clipboard!");
 				}
 
-				// Clear after a brief highlight
-				setTimeout(() => {
-					setAnnotations([]);
-					setMode(null);
-				}, 500);
+				// Leave the mode after a brief highlight
+				setTimeout(() => setMode(null), clearDelay);
+			}
+		},
+		[mode, prepareAnnotation, deliver, showToastNotification, clearDelay],
+	);
+
+	const handleCommentChange = useCallback((id: number, comment: string) => {
+		setAnnotations((prev) =>
+			prev.map((ann) => (ann.id === id ? { ...ann, comment } : ann)),
+		);
+	}, []);
+
+	const handleRemoveAnnotation = useCallback((id: number) => {
+		setAnnotations((prev) => prev.filter((ann) => ann.id !== id));
+		setCommentingId(null);
+	}, []);
+
+	const commentingAnnotation = useMemo(
+		() => annotations.find((ann) => ann.id === commentingId) ?? null,
+		[annotations, commentingId],
+	);
+
+	const copyAnnotations = useCallback(
+		async (items: AnnotationData[]) => {
+			if (items.length === 0) return false;
+
+			// The clipboard holds a single image, so screenshots go along only
+			// for a single annotation
+			const image =
+				items.length === 1 && items[0].screenshot
+					? await dataUrlToBlob(items[0].screenshot)
+					: null;
+
+			const success = await deliver(items, image);
+			if (success) {
+				showToastNotification(
+					"All contexts copied to clipboard!",
+					items.length,
+				);
 			}
+			return success;
 		},
-		[mode, copyToClipboard, showToastNotification],
+		[deliver, showToastNotification],
 	);
 
+	// Leaving multi-comment mode pauses the session: the annotations stay
+	// (and stay saved) while the page gets its clicks back, e.g. to follow
+	// links, and re-entering the mode picks up where it left off
 	const handleModeChange = useCallback(
 		async (newMode: typeof mode) => {
 			// If clicking multi-comment while in multi-comment mode with annotations
@@ -300,55 +805,176 @@ const AIAnnotationToolbar = () => {
 				annotations.length > 0
 			) {
 				// Copy all annotations
-				const contextText = annotations
-					.map((ann, idx) => annotationToPrompt(ann, idx + 1))
-					.join("\n---\n\n");
-
-				const success = await copyToClipboard(contextText);
-
-				if (success) {
-					showToastNotification(
-						"All contexts copied to clipboard!",
-						annotations.length,
-					);
-				}
+				await copyAnnotations(annotations);
 
 				// Clear annotations
 				setAnnotations([]);
+				setCommentingId(null);
 				setMode(null);
 				return;
 			}
 
-			if (newMode === mode) {
-				setMode(null);
-				setAnnotations([]);
-				return;
-			}
+			setMode(newMode === mode ? null : newMode);
+			setCommentingId(null);
+		},
+		[mode, annotations, copyAnnotations],
+	);
+
+	const startMode = useCallback(
+		(next: ToolbarMode) => {
+			if (!modes.includes(next) || next === mode) return;
+			setMode(next);
+			setCommentingId(null);
+		},
+		[modes, mode],
+	);
+
+	const stopMode = useCallback(() => {
+		setMode(null);
+		setCommentingId(null);
+	}, []);
+
+	const clearAnnotations = useCallback(() => {
+		setAnnotations([]);
+		setCommentingId(null);
+	}, []);
 
-			setMode(newMode);
-			setAnnotations([]);
+	// Programmatic counterpart of clicking an element in multi-comment mode
+	const annotateElement = useCallback(
+		async (element: Element, { comment }: { comment?: string } = {}) => {
+			if (!element.isConnected) return null;
+
+			const fiberInfo = await getFiberInfo(element, {
+				ancestorDepth,
+				projectRoot,
+				styleContext,
+				designTokens,
+				accessibility,
+				componentState,
+			});
+			const { annotation } = await prepareAnnotation(
+				{
+					element,
+					rect: element.getBoundingClientRect(),
+					fiberInfo,
+					id: Date.now(),
+					comment,
+				},
+				"multi-comment",
+			);
+
+			setMode("multi-comment");
+			setAnnotations((prev) => [...prev, annotation]);
+			if (!comment) setCommentingId(annotation.id);
+			return annotation;
 		},
-		[mode, annotations, copyToClipboard, showToastNotification],
+		[
+			ancestorDepth,
+			projectRoot,
+			styleContext,
+			designTokens,
+			accessibility,
+			componentState,
+			prepareAnnotation,
+		],
+	);
+
+	const handle = useMemo<AIToolbarHandle>(
+		() => ({
+			mode,
+			annotations,
+			start: startMode,
+			stop: stopMode,
+			clearAnnotations,
+			annotate: annotateElement,
+			formatPrompt: (items = annotations) => formatPrompt(items),
+			copy: (items = annotations) => copyAnnotations(items),
+			subscribe,
+		}),
+		[
+			mode,
+			annotations,
+			startMode,
+			stopMode,
+			clearAnnotations,
+			annotateElement,
+			formatPrompt,
+			copyAnnotations,
+			subscribe,
+		],
 	);
 
+	useImperativeHandle(ref, () => handle, [handle]);
+	useRegisterAIToolbar(handle);
+
 	// Single select mode
-	const { element: singleElement, rect: singleRect } = useSingleSelect({
+	const { rect: singleRect, info: singleInfo } = useSingleSelect({
 		enabled: mode === "single-select",
 		onAnnotate: handleAnnotate,
+		ancestorDepth,
+		projectRoot,
+		styleContext,
+		designTokens,
+		accessibility,
+		componentState,
+		hotkeys,
+		granularity,
 	});
 
 	// Multi comment mode
-	const { element: multiElement, rect: multiRect } = useSingleSelect({
+	const { rect: multiRect, info: multiInfo } = useSingleSelect({
 		enabled: mode === "multi-comment",
 		onAnnotate: handleAnnotate,
+		ancestorDepth,
+		projectRoot,
+		styleContext,
+		designTokens,
+		accessibility,
+		componentState,
+		hotkeys,
+		granularity,
 	});
 
 	// Draw select mode
 	const { isDrawing, startPos, currentPos, selectedElements } = useDrawSelect({
 		enabled: mode === "draw-select",
 		onAnnotate: handleAnnotate,
+		ancestorDepth,
+		projectRoot,
+		styleContext,
+		designTokens,
+		accessibility,
+		componentState,
 	});
 
+	// Global hotkeys: toggle modes and cancel with Escape
+	useEffect(() => {
+		const handleKeyDown = (e: KeyboardEvent) => {
+			if (e.defaultPrevented || isEditableTarget(e.target)) return;
+
+			const tool = tools.find((t) => matchesHotkey(e, t.hotkey));
+			if (tool) {
+				e.preventDefault();
+				handleModeChange(tool.id);
+				return;
+			}
+
+			if (matchesHotkey(e, hotkeys.cancel)) {
+				if (commentingId !== null) {
+					setCommentingId(null);
+				} else if (mode) {
+					setMode(null);
+				} else {
+					return;
+				}
+				e.preventDefault();
+			}
+		};
+
+		document.addEventListener("keydown", handleKeyDown);
+		return () => document.removeEventListener("keydown", handleKeyDown);
+	}, [tools, hotkeys, handleModeChange, commentingId, mode]);
+
 	// Toolbar dragging handlers
 	const handleMouseDown = useCallback((e: React.MouseEvent) => {
 		const target = e.target as Element;
@@ -399,8 +1025,10 @@ const AIAnnotationToolbar = () => {
 		}
 	}, [isDragging, handleMouseMove, handleMouseUp]);
 
-	return (
-		<>
+	if (!shadowRoot) return null;
+
+	return createPortal(
+		<div className="root" data-theme={theme}>
 			{/* Toast Notification */}
 			{showToast && <Toast message={toastMessage} count={annotationCount} />}
 
@@ -408,101 +1036,151 @@ const AIAnnotationToolbar = () => {
 			<div
 				role={"toolbar"}
 				ref={toolbarRef}
-				className="ai-toolbar-container fixed z-1000000"
+				className="toolbar"
 				style={{
 					left: `${position.x}px`,
 					top: `${position.y}px`,
 					cursor: isDragging ? "grabbing" : "default",
-					userSelect: "none", // Prevent text selection during drag
 				}}
 				onMouseDown={handleMouseDown}
 			>
-				<div className="bg-card/95 backdrop-blur-xl rounded-2xl border shadow-2xl p-2">
-					<div className="flex items-center gap-1">
-						{/* Left drag handle */}
-						<div className="drag-handle cursor-grab active:cursor-grabbing px-2 py-2 hover:bg-accent rounded-lg transition-colors">
-							<div className="flex flex-col gap-1">
-								<div className="w-1 h-1 bg-muted-foreground/50 rounded-full" />
-								<div className="w-1 h-1 bg-muted-foreground/50 rounded-full" />
-								<div className="w-1 h-1 bg-muted-foreground/50 rounded-full" />
-							</div>
-						</div>
-
-						{/* Comment counter (multi-comment mode) */}
-						{mode === "multi-comment" && annotations.length > 0 && (
-							<div className="px-3 py-2 bg-primary/10 rounded-lg border border-primary/20">
-								<span className="text-primary text-sm font-medium">
-									{annotations.length} selected
-								</span>
+				<div className="toolbar-panel">
+					{/* Left drag handle */}
+					<div className="drag-handle">
+						<span />
+						<span />
+						<span />
+					</div>
+
+					{/* Comment counter, also shown while the session is paused */}
+					{annotations.length > 0 && (
+						<>
+							<div className="counter">
+								{annotations.length} selected
+								{routeCount > 1 && ` · ${routeCount} pages`}
+								{mode !== "multi-comment" && " · paused"}
 							</div>
-						)}
-
-						{/* Mode selection buttons */}
-						{tools.map((tool) => {
-							const Icon = tool.icon;
-							const isActive = mode === tool.id;
-							const showCopyIndicator =
-								isActive &&
-								tool.id === "multi-comment" &&
-								annotations.length > 0;
-
-							return (
-								<button
-									type={"button"}
-									key={tool.id}
-									onClick={() => handleModeChange(tool.id)}
-									className={`p-3 rounded-lg transition-all group relative ${
-										isActive ? "bg-accent shadow-lg" : "hover:bg-accent/50"
-									}`}
-								>
-									<Icon
-										className={`w-5 h-5 transition-colors ${
-											isActive
-												? "text-primary"
-												: "text-muted-foreground group-hover:text-foreground"
-										}`}
-									/>
-									<div className="absolute -bottom-10 left-1/2 -translate-x-1/2 px-3 py-1.5 bg-popover text-xs text-popover-foreground rounded-lg opacity-0 group-hover:opacity-100 transition-opacity pointer-events-none whitespace-nowrap border z-50 shadow-md">
-										{showCopyIndicator ? "Click to copy all" : tool.tooltip}
-									</div>
-									{isActive && (
-										<div className="absolute -bottom-1 left-1/2 -translate-x-1/2 w-1 h-1 bg-primary rounded-full" />
+							<button
+								type={"button"}
+								onClick={clearAnnotations}
+								className="tool"
+							>
+								<Trash2 size={16} />
+								<div className="tooltip">Discard annotations</div>
+							</button>
+						</>
+					)}
+
+					{/* Mode selection buttons */}
+					{tools.map((tool) => {
+						const Icon = tool.icon;
+						const isActive = mode === tool.id;
+						const showCopyIndicator =
+							isActive && tool.id === "multi-comment" && annotations.length > 0;
+						const showResume =
+							!isActive &&
+							tool.id === "multi-comment" &&
+							annotations.length > 0;
+
+						return (
+							<button
+								type={"button"}
+								key={tool.id}
+								onClick={() => handleModeChange(tool.id)}
+								className={`tool ${isActive ? "tool-active" : ""}`}
+							>
+								<Icon size={20} />
+								<div className="tooltip">
+									{showCopyIndicator
+										? "Click to copy all"
+										: showResume
+											? "Resume annotating"
+											: tool.tooltip}
+									{formatHotkey(tool.hotkey) && (
+										<span className="tooltip-hotkey">
+											{formatHotkey(tool.hotkey)}
+										</span>
 									)}
-								</button>
-							);
-						})}
-
-						{/* Right drag handle */}
-						<div className="drag-handle cursor-grab active:cursor-grabbing px-2 py-2 hover:bg-accent rounded-lg transition-colors">
-							<div className="flex flex-col gap-1">
-								<div className="w-1 h-1 bg-muted-foreground/50 rounded-full" />
-								<div className="w-1 h-1 bg-muted-foreground/50 rounded-full" />
-								<div className="w-1 h-1 bg-muted-foreground/50 rounded-full" />
-							</div>
-						</div>
+								</div>
+								{isActive && <div className="tool-indicator" />}
+							</button>
+						);
+					})}
+
+					{/* Prompt format switcher */}
+					{formatters.length > 1 && (
+						<button
+							type={"button"}
+							onClick={cycleFormat}
+							className="tool format-button mono"
+						>
+							{formatter.label}
+							<div className="tooltip">Prompt format, click to switch</div>
+						</button>
+					)}
+
+					{/* Bridge queue (annotations waiting on disk for agents) */}
+					{bridgeUrl && queuedCount > 0 && (
+						<button
+							type={"button"}
+							onClick={handleClearQueue}
+							className="tool queue-button"
+						>
+							{queuedCount} queued
+							<Trash2 size={16} />
+							<div className="tooltip">Clear queued annotations</div>
+						</button>
+					)}
+
+					{/* Right drag handle */}
+					<div className="drag-handle">
+						<span />
+						<span />
+						<span />
 					</div>
 				</div>
 			</div>
 
 			{/* Hover highlights */}
 			{mode === "single-select" && singleRect && (
-				<HighlightOverlay rect={singleRect} />
+				<>
+					<HighlightOverlay rect={singleRect} />
+					<InspectorLabel rect={singleRect} info={singleInfo} />
+				</>
 			)}
 
 			{mode === "multi-comment" && multiRect && (
-				<HighlightOverlay rect={multiRect} />
+				<>
+					<HighlightOverlay rect={multiRect} />
+					<InspectorLabel rect={multiRect} info={multiInfo} />
+				</>
 			)}
 
 			{/* Persistent annotation highlights */}
-			{annotations.map((annotation) => (
+			{routeAnnotations.map((annotation) => (
 				<HighlightOverlay
 					key={annotation.id}
-					rect={annotation.rect}
+					rect={trackedRects.get(annotation.id)?.rect ?? annotation.rect}
 					color="secondary"
 					style="solid"
+					detached={trackedRects.get(annotation.id)?.detached}
 				/>
 			))}
 
+			{/* Inline instruction for the latest annotation */}
+			{mode === "multi-comment" && commentingAnnotation && (
+				<CommentPopover
+					key={commentingAnnotation.id}
+					annotation={commentingAnnotation}
+					rect={trackedRects.get(commentingAnnotation.id)?.rect}
+					onChange={(comment) =>
+						handleCommentChange(commentingAnnotation.id, comment)
+					}
+					onClose={() => setCommentingId(null)}
+					onRemove={() => handleRemoveAnnotation(commentingAnnotation.id)}
+				/>
+			)}
+
 			{/* Draw selection rectangle */}
 			{isDrawing && (
 				<SelectionRectangle startPos={startPos} currentPos={currentPos} />
@@ -516,7 +1194,8 @@ const AIAnnotationToolbar = () => {
 					color="secondary"
 				/>
 			))}
-		</>
+		</div>,
+		shadowRoot,
 	);
 };
 
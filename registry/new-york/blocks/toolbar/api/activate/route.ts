@@ -0,0 +1,118 @@
+import { type NextRequest, NextResponse } from "next/server";
+import { z } from "zod";
+
+// Checks toolbar activation tokens against AI_TOOLBAR_SECRET so the toolbar
+// can be switched on for preview and staging deployments. A valid token is
+// kept in a cookie until it expires. Without a secret the route answers 404.
+//
+// Tokens are "<expires>.<signature>": expiry in Unix seconds and an
+// HMAC-SHA256 of it, base64url encoded. Create them with
+// `activation/create-token.ts`.
+const COOKIE_NAME = "ai-toolbar";
+const MIN_SECRET_LENGTH = 16;
+
+const bodySchema = z.object({
+	token: z.string().max(256),
+});
+
+const TOKEN_PATTERN = /^(\d{1,12})\.([\w-]+)$/;
+
+const encoder = new TextEncoder();
+
+const getSecret = () => {
+	const secret = process.env.AI_TOOLBAR_SECRET;
+	return secret && secret.length >= MIN_SECRET_LENGTH ? secret : null;
+};
+
+const fromBase64Url = (value: string) =>
+	Uint8Array.from(atob(value.replace(/-/g, "+").replace(/_/g, "/")), (char) =>
+		char.charCodeAt(0),
+	);
+
+// Seconds until the token expires, or null when it is invalid or expired
+const verifyToken = async (secret: string, token: string) => {
+	const match = TOKEN_PATTERN.exec(token);
+	if (!match) return null;
+
+	const expiresAt = Number(match[1]);
+	const remaining = expiresAt - Math.floor(Date.now() / 1000);
+	if (remaining <= 0) return null;
+
+	let signature: Uint8Array<ArrayBuffer>;
+	try {
+		signature = fromBase64Url(match[2]);
+	} catch {
+		return null;
+	}
+
+	const key = await crypto.subtle.importKey(
+		"raw",
+		encoder.encode(secret),
+		{ name: "HMAC", hash: "SHA-256" },
+		false,
+		["verify"],
+	);
+	const valid = await crypto.subtle.verify(
+		"HMAC",
+		key,
+		signature,
+		encoder.encode(`ai-toolbar:${expiresAt}`),
+	);
+	return valid ? remaining : null;
+};
+
+const disabled = () =>
+	NextResponse.json(
+		{ error: "AI toolbar activation is not configured" },
+		{ status: 404 },
+	);
+
+const deactivate = (response: NextResponse) => {
+	response.cookies.delete(COOKIE_NAME);
+	return response;
+};
+
+export async function POST(request: NextRequest) {
+	const secret = getSecret();
+	if (!secret) return disabled();
+
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+	}
+
+	const parsed = bodySchema.safeParse(body);
+	if (!parsed.success) {
+		return NextResponse.json(
+			{ error: "Invalid activation request", issues: parsed.error.issues },
+			{ status: 400 },
+		);
+	}
+
+	const remaining = await verifyToken(secret, parsed.data.token);
+	if (remaining === null) {
+		return deactivate(
+			NextResponse.json(
+				{ active: false, error: "Invalid or expired token" },
+				{ status: 403 },
+			),
+		);
+	}
+
+	const response = NextResponse.json({ active: true, expiresIn: remaining });
+	// Readable by the page so the loader knows to ask, the signature is what
+	// grants access
+	response.cookies.set(COOKIE_NAME, parsed.data.token, {
+		path: "/",
+		maxAge: remaining,
+		sameSite: "lax",
+		secure: request.nextUrl.protocol === "https:",
+	});
+	return response;
+}
+
+export async function DELETE() {
+	return deactivate(NextResponse.json({ active: false }));
+}
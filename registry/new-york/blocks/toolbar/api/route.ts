@@ -0,0 +1,180 @@
+import { randomUUID } from "node:crypto";
+import { mkdir, readFile, rm, writeFile } from "node:fs/promises";
+import path from "node:path";
+
+import { NextResponse } from "next/server";
+
+// Imported from where the registry installs them, mapped to the registry
+// source in this repo's tsconfig
+import { bridgePayloadSchema } from "@/components/ai-toolbar/lib/schema";
+import type {
+	AnnotationScreenshot,
+	BridgeEntry,
+} from "@/components/ai-toolbar/types";
+
+// Dev-only bridge between the toolbar and the project on disk. Annotations
+// POSTed here are queued in `.ai-toolbar/` so terminal agents can read them.
+const OUTPUT_DIR = path.join(process.cwd(), ".ai-toolbar");
+const JSON_FILE = path.join(OUTPUT_DIR, "annotations.json");
+const MARKDOWN_FILE = path.join(OUTPUT_DIR, "annotations.md");
+const SCREENSHOT_DIR = path.join(OUTPUT_DIR, "screenshots");
+
+const readEntries = async (): Promise<BridgeEntry[]> => {
+	try {
+		return JSON.parse(await readFile(JSON_FILE, "utf8"));
+	} catch {
+		// Missing or unreadable queue starts empty
+		return [];
+	}
+};
+
+const entryToMarkdown = (entry: BridgeEntry) => {
+	const images = (entry.screenshots ?? []).map(
+		(file) => `\n![Screenshot](screenshots/${path.basename(file)})\n`,
+	);
+	return `<!-- ai-toolbar:${entry.id} -->\n# Annotations on ${entry.url} (${entry.createdAt})\n\n${entry.prompt}\n${images.join("")}`;
+};
+
+const entriesToMarkdown = (entries: BridgeEntry[]) =>
+	entries.map(entryToMarkdown).join("\n---\n\n");
+
+const writeEntries = async (entries: BridgeEntry[]) => {
+	await mkdir(OUTPUT_DIR, { recursive: true });
+	await writeFile(JSON_FILE, `${JSON.stringify(entries, null, 2)}\n`);
+	await writeFile(MARKDOWN_FILE, entriesToMarkdown(entries));
+};
+
+// Decode the PNGs and return their project-relative paths
+const writeScreenshots = async (
+	entryId: string,
+	screenshots: AnnotationScreenshot[],
+) => {
+	if (screenshots.length === 0) return undefined;
+	await mkdir(SCREENSHOT_DIR, { recursive: true });
+	return Promise.all(
+		screenshots.map(async ({ annotationId, dataUrl }) => {
+			const file = path.join(SCREENSHOT_DIR, `${entryId}-${annotationId}.png`);
+			await writeFile(file, Buffer.from(dataUrl.split(",")[1], "base64"));
+			return path.relative(process.cwd(), file).split(path.sep).join("/");
+		}),
+	);
+};
+
+// Serialize read-modify-write cycles so concurrent requests don't drop entries
+let queue: Promise<unknown> = Promise.resolve();
+const withLock = <T>(task: () => Promise<T>): Promise<T> => {
+	const result = queue.then(task, task);
+	queue = result.catch(() => undefined);
+	return result;
+};
+
+const disabledResponse = () =>
+	NextResponse.json(
+		{ error: "The AI toolbar bridge is disabled in production" },
+		{ status: 404 },
+	);
+
+const isDisabled = () => process.env.NODE_ENV === "production";
+
+// Browsers attach an Origin to cross-site POSTs, even `no-cors` ones. Only
+// the app itself and pages served from this machine may change the queue;
+// requests without an Origin come from local tools, not web pages.
+const isAllowedOrigin = (request: Request) => {
+	const origin = request.headers.get("origin");
+	if (!origin) return true;
+	try {
+		const { host, hostname } = new URL(origin);
+		return (
+			host === request.headers.get("host") ||
+			["localhost", "127.0.0.1", "[::1]"].includes(hostname)
+		);
+	} catch {
+		return false;
+	}
+};
+
+const forbiddenOriginResponse = () =>
+	NextResponse.json(
+		{ error: "Cross-origin requests are not allowed" },
+		{ status: 403 },
+	);
+
+export async function GET() {
+	if (isDisabled()) return disabledResponse();
+
+	const entries = await readEntries();
+	return NextResponse.json({ entries, count: entries.length });
+}
+
+export async function POST(request: Request) {
+	if (isDisabled()) return disabledResponse();
+	if (!isAllowedOrigin(request)) return forbiddenOriginResponse();
+
+	// A JSON content type can't be sent cross-site without a CORS preflight
+	const contentType = request.headers.get("content-type") ?? "";
+	if (!contentType.toLowerCase().startsWith("application/json")) {
+		return NextResponse.json(
+			{ error: "Expected Content-Type: application/json" },
+			{ status: 415 },
+		);
+	}
+
+	let body: unknown;
+	try {
+		body = await request.json();
+	} catch {
+		return NextResponse.json({ error: "Invalid JSON body" }, { status: 400 });
+	}
+
+	const parsed = bridgePayloadSchema.safeParse(body);
+	if (!parsed.success) {
+		return NextResponse.json(
+			{ error: "Invalid annotation payload", issues: parsed.error.issues },
+			{ status: 400 },
+		);
+	}
+
+	const { screenshots, ...data } = parsed.data;
+	const id = randomUUID();
+	const entry: BridgeEntry = {
+		id,
+		createdAt: new Date().toISOString(),
+		...data,
+		screenshots: await writeScreenshots(id, screenshots ?? []),
+	};
+
+	const count = await withLock(async () => {
+		const entries = [...(await readEntries()), entry];
+		await writeEntries(entries);
+		return entries.length;
+	});
+
+	return NextResponse.json({ entry, count }, { status: 201 });
+}
+
+export async function DELETE(request: Request) {
+	if (isDisabled()) return disabledResponse();
+	if (!isAllowedOrigin(request)) return forbiddenOriginResponse();
+
+	// `?id=` removes a single entry, otherwise the whole queue is cleared
+	const id = new URL(request.url).searchParams.get("id");
+
+	const count = await withLock(async () => {
+		if (!id) {
+			await rm(OUTPUT_DIR, { recursive: true, force: true });
+			return 0;
+		}
+		const entries = await readEntries();
+		const removed = entries.find((entry) => entry.id === id);
+		await Promise.all(
+			(removed?.screenshots ?? []).map((file) =>
+				rm(path.join(SCREENSHOT_DIR, path.basename(file)), { force: true }),
+			),
+		);
+		const remaining = entries.filter((entry) => entry.id !== id);
+		await writeEntries(remaining);
+		return remaining.length;
+	});
+
+	return NextResponse.json({ count });
+}
@@ -0,0 +1,168 @@
+import { readFile, realpath } from "node:fs/promises";
+import path from "node:path";
+
+import { NextResponse } from "next/server";
+import { z } from "zod";
+
+// Dev-only endpoint that returns the source lines around a fiber location so
+// the toolbar can embed them in prompts. Reads never leave the project root.
+const PROJECT_ROOT = process.cwd();
+const SOURCE_EXTENSIONS: Record<string, string> = {
+	".js": "jsx",
+	".jsx": "jsx",
+	".mjs": "js",
+	".cjs": "js",
+	".ts": "ts",
+	".tsx": "tsx",
+	".mdx": "mdx",
+};
+// Upper bound for a whole-element snippet
+const MAX_LINES = 120;
+
+const querySchema = z.object({
+	file: z.string().min(1),
+	line: z.coerce.number().int().min(1),
+	column: z.coerce.number().int().min(0).default(0),
+	context: z.coerce.number().int().min(0).max(50).default(6),
+	mode: z.enum(["lines", "element"]).default("lines"),
+});
+
+const isInside = (root: string, target: string) => {
+	const relative = path.relative(root, target);
+	return (
+		relative !== "" &&
+		!relative.startsWith("..") &&
+		!path.isAbsolute(relative) &&
+		!relative.split(path.sep).includes("node_modules")
+	);
+};
+
+// Resolve a fiber file name to a real path inside the project, or null
+const resolveProjectFile = async (fileName: string) => {
+	const cleaned = fileName.replace(/^file:\/\//, "");
+	const resolved = path.resolve(PROJECT_ROOT, cleaned);
+	if (!isInside(PROJECT_ROOT, resolved)) return null;
+	if (!(path.extname(resolved) in SOURCE_EXTENSIONS)) return null;
+
+	try {
+		// Follow symlinks and check again so links can't escape the root
+		const real = await realpath(resolved);
+		const realRoot = await realpath(PROJECT_ROOT);
+		return isInside(realRoot, real) ? real : null;
+	} catch {
+		return null;
+	}
+};
+
+// Find the line range of the innermost JSX element at the location using
+// the TypeScript parser, when it is installed
+const findElementRange = async (
+	filePath: string,
+	content: string,
+	line: number,
+	column: number,
+): Promise<{ startLine: number; endLine: number } | null> => {
+	let ts: typeof import("typescript");
+	try {
+		ts = await import("typescript");
+	} catch {
+		return null;
+	}
+
+	const sourceFile = ts.createSourceFile(
+		filePath,
+		content,
+		ts.ScriptTarget.Latest,
+		true,
+		filePath.endsWith(".tsx") || filePath.endsWith(".ts")
+			? ts.ScriptKind.TSX
+			: ts.ScriptKind.JSX,
+	);
+
+	const lineStarts = sourceFile.getLineStarts();
+	if (line > lineStarts.length) return null;
+	// Fiber columns are 1-based, TypeScript positions are 0-based
+	const position = lineStarts[line - 1] + Math.max(0, column - 1);
+
+	let match: import("typescript").Node | null = null;
+	const visit = (node: import("typescript").Node) => {
+		if (node.getStart(sourceFile) > position || node.getEnd() <= position) {
+			return;
+		}
+		if (
+			ts.isJsxElement(node) ||
+			ts.isJsxSelfClosingElement(node) ||
+			ts.isJsxFragment(node)
+		) {
+			match = node;
+		}
+		ts.forEachChild(node, visit);
+	};
+	visit(sourceFile);
+
+	if (!match) return null;
+	const node = match as import("typescript").Node;
+	return {
+		startLine:
+			sourceFile.getLineAndCharacterOfPosition(node.getStart(sourceFile))
+				.line + 1,
+		endLine: sourceFile.getLineAndCharacterOfPosition(node.getEnd()).line + 1,
+	};
+};
+
+export async function GET(request: Request) {
+	if (process.env.NODE_ENV === "production") {
+		return NextResponse.json(
+			{ error: "The AI toolbar source endpoint is disabled in production" },
+			{ status: 404 },
+		);
+	}
+
+	const parsed = querySchema.safeParse(
+		Object.fromEntries(new URL(request.url).searchParams),
+	);
+	if (!parsed.success) {
+		return NextResponse.json(
+			{ error: "Invalid query", issues: parsed.error.issues },
+			{ status: 400 },
+		);
+	}
+
+	const { file, line, column, context, mode } = parsed.data;
+	const filePath = await resolveProjectFile(file);
+	if (!filePath) {
+		return NextResponse.json(
+			{ error: "File is outside the project or not a source file" },
+			{ status: 403 },
+		);
+	}
+
+	const content = await readFile(filePath, "utf8");
+	const allLines = content.split(/\r?\n/);
+	if (line > allLines.length) {
+		return NextResponse.json(
+			{ error: "Line is past the end of the file" },
+			{ status: 416 },
+		);
+	}
+
+	let startLine = Math.max(1, line - context);
+	let endLine = Math.min(allLines.length, line + context);
+
+	if (mode === "element") {
+		const range = await findElementRange(filePath, content, line, column);
+		if (range) {
+			startLine = range.startLine;
+			endLine = Math.min(range.endLine, range.startLine + MAX_LINES - 1);
+		}
+	}
+
+	return NextResponse.json({
+		fileName: path.relative(PROJECT_ROOT, filePath).split(path.sep).join("/"),
+		language: SOURCE_EXTENSIONS[path.extname(filePath)],
+		startLine,
+		endLine,
+		targetLine: line,
+		lines: allLines.slice(startLine - 1, endLine),
+	});
+}
@@ -0,0 +1,44 @@
+/* eslint-disable @typescript-eslint/no-require-imports -- webpack and Babel load these as CommonJS */
+
+// webpack and Turbopack loader that runs only the ai-source Babel plugin, so
+// Next.js keeps compiling everything else with SWC. Lines are retained so
+// stack-based source locations stay correct.
+
+const babel = require("@babel/core");
+
+const plugin = require("./babel-plugin-ai-source.cjs");
+
+const getParserPlugins = (resourcePath) => {
+	if (/\.tsx$/.test(resourcePath)) return ["jsx", "typescript"];
+	if (/\.ts$/.test(resourcePath)) return ["typescript"];
+	return ["jsx"];
+};
+
+module.exports = function aiSourceLoader(source, inputSourceMap) {
+	const callback = this.async();
+	const options = this.getOptions?.() ?? {};
+
+	if (
+		/[\\/]node_modules[\\/]/.test(this.resourcePath) ||
+		!source.includes("<")
+	) {
+		callback(null, source, inputSourceMap);
+		return;
+	}
+
+	babel
+		.transformAsync(source, {
+			filename: this.resourcePath,
+			babelrc: false,
+			configFile: false,
+			retainLines: true,
+			sourceMaps: this.sourceMap,
+			inputSourceMap: inputSourceMap || undefined,
+			parserOpts: { plugins: getParserPlugins(this.resourcePath) },
+			plugins: [[plugin, options]],
+		})
+		.then((result) => {
+			callback(null, result?.code ?? source, result?.map ?? inputSourceMap);
+		})
+		.catch(callback);
+};
@@ -0,0 +1,108 @@
+/* eslint-disable @typescript-eslint/no-require-imports -- webpack and Babel load these as CommonJS */
+
+// Babel plugin that stamps every JSX host element with where it was written:
+//
+//   <div data-ai-source="app/page.tsx:12:5" data-ai-component="Page">
+//
+// The toolbar falls back to these attributes when it can't resolve a
+// location from the component stack. Disabled when Babel's env is
+// "production" unless `force` is set.
+//
+// Options:
+//   root   Directory paths are made relative to (defaults to Babel's cwd)
+//   force  Stamp production builds too
+
+const path = require("node:path");
+
+const SOURCE_ATTRIBUTE = "data-ai-source";
+const COMPONENT_ATTRIBUTE = "data-ai-component";
+
+const isComponentName = (name) => /^[A-Z]/.test(name);
+
+// Lowercase tags and custom elements render DOM nodes, everything else is
+// a component, a member expression or a namespaced name
+const isHostElement = (name) =>
+	name.type === "JSXIdentifier" && /^[a-z]/.test(name.name);
+
+const hasAttribute = (node, name) =>
+	node.attributes.some(
+		(attribute) =>
+			attribute.type === "JSXAttribute" && attribute.name.name === name,
+	);
+
+// Name a function gets from its declaration, variable or class, looking
+// through wrappers such as memo() and forwardRef()
+const getFunctionName = (fn) => {
+	if (fn.node.id?.name) return fn.node.id.name;
+	if (fn.isClassMethod() || fn.isClassPrivateMethod()) {
+		return fn.parentPath.parentPath.node.id?.name ?? null;
+	}
+
+	let current = fn.parentPath;
+	while (current?.isCallExpression()) current = current.parentPath;
+	if (
+		current?.isVariableDeclarator() &&
+		current.node.id.type === "Identifier"
+	) {
+		return current.node.id.name;
+	}
+	return null;
+};
+
+// Innermost enclosing function that looks like a component
+const getComponentName = (jsxPath) => {
+	let fn = jsxPath.getFunctionParent();
+	while (fn) {
+		const name = getFunctionName(fn);
+		if (name && isComponentName(name)) return name;
+		fn = fn.parentPath?.getFunctionParent() ?? null;
+	}
+	return null;
+};
+
+module.exports = function aiSourcePlugin(api, options = {}) {
+	const { types: t } = api;
+	if (api.env("production") && !options.force) {
+		return { name: "ai-source", visitor: {} };
+	}
+
+	return {
+		name: "ai-source",
+		visitor: {
+			JSXOpeningElement(jsxPath, state) {
+				const { node } = jsxPath;
+				const filename = state.filename;
+				if (!filename || !node.loc || /[\\/]node_modules[\\/]/.test(filename)) {
+					return;
+				}
+				if (!isHostElement(node.name) || hasAttribute(node, SOURCE_ATTRIBUTE)) {
+					return;
+				}
+
+				const root = options.root ?? state.cwd ?? process.cwd();
+				const fileName = path
+					.relative(root, filename)
+					.split(path.sep)
+					.join("/");
+				const { line, column } = node.loc.start;
+
+				node.attributes.push(
+					t.jsxAttribute(
+						t.jsxIdentifier(SOURCE_ATTRIBUTE),
+						t.stringLiteral(`${fileName}:${line}:${column + 1}`),
+					),
+				);
+
+				const componentName = getComponentName(jsxPath);
+				if (componentName && !hasAttribute(node, COMPONENT_ATTRIBUTE)) {
+					node.attributes.push(
+						t.jsxAttribute(
+							t.jsxIdentifier(COMPONENT_ATTRIBUTE),
+							t.stringLiteral(componentName),
+						),
+					);
+				}
+			},
+		},
+	};
+};
@@ -0,0 +1,54 @@
+import path from "node:path";
+
+import type { NextConfig } from "next";
+
+// Next.js config helper that stamps JSX host elements with
+// `data-ai-source` and `data-ai-component` in development, for webpack and
+// Turbopack alike. Production builds get the config back untouched.
+//
+//   export default withAISource(nextConfig);
+
+export interface AISourceOptions {
+	// Directory stamped paths are relative to, defaults to the project root
+	root?: string;
+}
+
+const LOADER_PATH = path.join(__dirname, "ai-source-loader.cjs");
+
+const FILE_PATTERNS = ["*.jsx", "*.tsx"];
+
+export const withAISource = (
+	config: NextConfig = {},
+	{ root = process.cwd() }: AISourceOptions = {},
+): NextConfig => {
+	if (process.env.NODE_ENV === "production") return config;
+
+	const loader = { loader: LOADER_PATH, options: { root } };
+
+	return {
+		...config,
+		turbopack: {
+			...config.turbopack,
+			rules: {
+				...config.turbopack?.rules,
+				...Object.fromEntries(
+					FILE_PATTERNS.map((pattern) => [pattern, { loaders: [loader] }]),
+				),
+			},
+		},
+		webpack: (webpackConfig, context) => {
+			const result = config.webpack
+				? config.webpack(webpackConfig, context)
+				: webpackConfig;
+			if (context.dev) {
+				result.module.rules.push({
+					test: /\.[jt]sx$/,
+					exclude: /node_modules/,
+					enforce: "pre",
+					use: [loader],
+				});
+			}
+			return result;
+		},
+	};
+};
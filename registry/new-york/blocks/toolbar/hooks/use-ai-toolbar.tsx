@@ -0,0 +1,53 @@
+"use client";
+
+import {
+	createContext,
+	type ReactNode,
+	useContext,
+	useEffect,
+	useMemo,
+	useState,
+} from "react";
+
+import type { AIToolbarHandle } from "../types";
+
+interface AIToolbarContextValue {
+	handle: AIToolbarHandle | null;
+	register: (handle: AIToolbarHandle | null) => void;
+}
+
+const AIToolbarContext = createContext<AIToolbarContextValue | null>(null);
+
+// Lets components anywhere below reach the toolbar through `useAIToolbar()`.
+// The toolbar itself can sit anywhere inside the provider.
+export const AIToolbarProvider = ({ children }: { children: ReactNode }) => {
+	const [handle, setHandle] = useState<AIToolbarHandle | null>(null);
+	const value = useMemo(() => ({ handle, register: setHandle }), [handle]);
+
+	return (
+		<AIToolbarContext.Provider value={value}>
+			{children}
+		</AIToolbarContext.Provider>
+	);
+};
+
+// The mounted toolbar's handle, or null while no toolbar is rendered (for
+// example in production builds that leave it out)
+export const useAIToolbar = (): AIToolbarHandle | null => {
+	const context = useContext(AIToolbarContext);
+	if (!context) {
+		throw new Error("useAIToolbar must be used within an AIToolbarProvider");
+	}
+	return context.handle;
+};
+
+// Publish a toolbar's handle to the surrounding provider, if there is one
+export const useRegisterAIToolbar = (handle: AIToolbarHandle) => {
+	const register = useContext(AIToolbarContext)?.register;
+
+	useEffect(() => {
+		register?.(handle);
+	}, [register, handle]);
+
+	useEffect(() => () => register?.(null), [register]);
+};
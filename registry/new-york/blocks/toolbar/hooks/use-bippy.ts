@@ -1,50 +1,98 @@
 import {
+	type Fiber,
 	getDisplayName,
 	getFiberFromHostInstance,
 	getLatestFiber,
+	getNearestHostFiber,
+	getNearestHostFibers,
+	isCompositeFiber,
+	isHostFiber,
 } from "bippy";
 import { getFiberSource } from "bippy/dist/source.js";
 import { useEffect, useRef, useState } from "react";
 
-// TypeScript interfaces
-interface FiberInfo {
-	componentName: string;
-	props: Record<string, unknown>;
-	source?: {
-		fileName: string;
-		lineNumber: number;
-		columnNumber: number;
-	} | null;
+import {
+	DEFAULT_HOTKEYS,
+	type HotkeyMap,
+	isEditableTarget,
+	matchesHotkey,
+} from "../lib/hotkeys";
+import { getAccessibilityContext } from "../lib/a11y";
+import {
+	getStampedSource,
+	isLibraryPath,
+	normalizeSource,
+	type PathOptions,
+} from "../lib/paths";
+import { getCssPath } from "../lib/session";
+import { getComponentState } from "../lib/state";
+import { getStyleContext } from "../lib/styles";
+import { getTokenMatches } from "../lib/tokens";
+import type {
+	AnnotationData,
+	FiberAncestor,
+	FiberInfo,
+	FiberSource,
+	InspectorInfo,
+	Position,
+	SelectionRect,
+} from "../types";
+
+export interface FiberInfoOptions extends PathOptions {
+	// How many composite components above the element to report
+	ancestorDepth?: number;
+	// Capture classes, computed styles and the box model of the element
+	styleContext?: boolean;
+	// Map colors, radii and spacing to theme tokens and Tailwind steps
+	designTokens?: boolean;
+	// Capture role, accessible name, contrast and a11y check results
+	accessibility?: boolean;
+	// Capture the component's hook values and the contexts it reads
+	componentState?: boolean;
 }
 
-interface Position {
-	x: number;
-	y: number;
+interface HookProps extends FiberInfoOptions {
+	enabled: boolean;
+	onAnnotate?: (data: AnnotationData) => void;
 }
 
-interface SelectionRect {
-	left: number;
-	top: number;
-	width: number;
-	height: number;
+// "element" targets the deepest DOM node under the pointer, "component" the
+// full extent of the nearest user component
+export type SelectGranularity = "element" | "component";
+
+interface SingleSelectProps extends HookProps {
+	hotkeys?: Pick<
+		HotkeyMap,
+		"parent" | "child" | "nextSibling" | "previousSibling" | "annotate"
+	>;
+	granularity?: SelectGranularity;
 }
 
-interface AnnotationData {
-	element?: Element;
-	elements?: Element[];
-	rect: DOMRect | SelectionRect;
-	fiberInfo: FiberInfo | FiberInfo[] | null;
-	id: number;
+// A component (or bare host element) picked by the marquee
+interface MarqueeSelection {
+	fiber: Fiber | null;
+	elements: Element[];
 }
 
-interface HookProps {
-	enabled: boolean;
-	onAnnotate?: (data: AnnotationData) => void;
+// Components around the hovered element, stepped through with alt+wheel
+interface ComponentHierarchy {
+	base: Element;
+	levels: MarqueeSelection[];
+	level: number;
 }
 
-const throttle = (fn: (...args: unknown[]) => void, wait: number) => {
+const DEFAULT_ANCESTOR_DEPTH = 5;
+// Wait for the pointer to settle before resolving the hover label
+const INSPECTOR_DELAY = 80;
+// Drags smaller than this are treated as accidental clicks
+const MIN_MARQUEE_SIZE = 4;
+
+const throttle = <T extends unknown[]>(
+	fn: (...args: T) => void,
+	wait: number,
+) => {
 	let timeout: NodeJS.Timeout | null = null;
-	return function (this: unknown, ...args: unknown[]) {
+	return function (this: unknown, ...args: T) {
 		if (!timeout) {
 			timeout = setTimeout(() => {
 				fn.apply(this, args);
@@ -54,57 +102,373 @@ const throttle = (fn: (...args: unknown[]) => void, wait: number) => {
 	};
 };
 
+// Repo-relative source for a fiber, or null when it can't be resolved or
+// points into a library
+const getUserSource = async (
+	fiber: Fiber,
+	options: PathOptions,
+): Promise<FiberSource | null> => {
+	const source = await normalizeSource(await getFiberSource(fiber), options);
+	return source && !isLibraryPath(source.fileName) ? source : null;
+};
+
+// Build-time location on the fiber's DOM node, for when the stack gives none
+const getFiberStampedSource = (fiber: Fiber): FiberSource | null => {
+	const node = isHostFiber(fiber)
+		? fiber.stateNode
+		: getNearestHostFiber(fiber)?.stateNode;
+	return node instanceof Element ? getStampedSource(node) : null;
+};
+
+// Whether a component is defined in the app rather than a library. Fiber
+// sources point at the JSX call site, so this checks where the component's
+// own output was created. Unresolvable locations count as user code.
+const userComponentCache = new WeakMap<object, Promise<boolean>>();
+
+const isUserComponent = (fiber: Fiber, options: PathOptions) => {
+	const type = fiber.type as object;
+	const cached = userComponentCache.get(type);
+	if (cached) return cached;
+
+	const pending = (async () => {
+		if (!fiber.child) return true;
+		const source = await normalizeSource(
+			await getFiberSource(fiber.child),
+			options,
+		);
+		return !source || !isLibraryPath(source.fileName);
+	})().catch(() => true);
+
+	userComponentCache.set(type, pending);
+	return pending;
+};
+
+// Walk up the return chain collecting the user components that rendered
+// this fiber, skipping host fibers, anonymous wrappers and library or
+// framework components such as Next's layout routers and icon wrappers
+const getFiberAncestors = async (
+	fiber: Fiber,
+	depth: number,
+	options: PathOptions,
+): Promise<FiberAncestor[]> => {
+	const fibers: Fiber[] = [];
+	let current = fiber.return;
+
+	while (current && fibers.length < depth) {
+		if (
+			isCompositeFiber(current) &&
+			getDisplayName(current.type) &&
+			(await isUserComponent(current, options))
+		) {
+			fibers.push(current);
+		}
+		current = current.return;
+	}
+
+	const ancestors = await Promise.all(
+		fibers.map(async (ancestor) => {
+			let source = null;
+			try {
+				source = await getUserSource(ancestor, options);
+			} catch {
+				// Source is best effort for ancestors
+			}
+			return {
+				componentName: getDisplayName(ancestor.type) || "Anonymous",
+				source,
+			};
+		}),
+	);
+
+	return ancestors.reverse();
+};
+
+// Describe a fiber (host or composite) as FiberInfo
+const getFiberInfoFromFiber = async (
+	fiber: Fiber,
+	fallbackName: string,
+	{
+		ancestorDepth = DEFAULT_ANCESTOR_DEPTH,
+		componentState,
+		...pathOptions
+	}: FiberInfoOptions = {},
+): Promise<FiberInfo> => {
+	const latestFiber = getLatestFiber(fiber);
+	const componentName = getDisplayName(latestFiber.type) || fallbackName;
+	const props = latestFiber.memoizedProps || {};
+
+	// Get source information asynchronously
+	let source = null;
+	try {
+		source = await getUserSource(latestFiber, pathOptions);
+	} catch (sourceError) {
+		console.warn("Failed to get fiber source:", sourceError);
+	}
+
+	const ancestors =
+		ancestorDepth > 0
+			? await getFiberAncestors(latestFiber, ancestorDepth, pathOptions)
+			: [];
+
+	// Library or unresolved locations fall back to the compiler stamp, then
+	// to the nearest user component
+	if (!source) {
+		source =
+			getFiberStampedSource(latestFiber) ??
+			[...ancestors].reverse().find((ancestor) => ancestor.source)?.source ??
+			null;
+	}
+
+	let state = null;
+	if (componentState) {
+		try {
+			state = getComponentState(latestFiber);
+		} catch (stateError) {
+			console.warn("Failed to read component state:", stateError);
+		}
+	}
+
+	return {
+		componentName,
+		props,
+		source,
+		ancestors,
+		state,
+	};
+};
+
+// Add context read from the rendered DOM rather than the fiber
+const withElementContext = (
+	info: FiberInfo | null,
+	element: Element | undefined,
+	{ styleContext, designTokens, accessibility }: FiberInfoOptions,
+): FiberInfo | null => {
+	if (!info || !element) return info;
+	const result = { ...info };
+
+	try {
+		// Production builds usually carry no locations, so name the element
+		// by its place in the DOM instead
+		if (!result.source) result.domPath = getCssPath(element);
+		if (styleContext) result.style = getStyleContext(element);
+		if (designTokens) result.tokens = getTokenMatches(element);
+		if (accessibility) {
+			result.accessibility = getAccessibilityContext(element);
+		}
+	} catch (error) {
+		console.warn("Failed to read element context:", error);
+	}
+	return result;
+};
+
+// Basic element info plus whatever the compiler stamped onto it
+const getElementInfo = (element: Element): FiberInfo => {
+	const source = getStampedSource(element);
+	const owner = element.getAttribute("data-ai-component");
+	return {
+		componentName: element.tagName.toLowerCase(),
+		props: {},
+		source,
+		...(owner && { ancestors: [{ componentName: owner, source }] }),
+	};
+};
+
 // Use actual bippy implementation for fiber detection
-const getFiberInfo = async (element: Element): Promise<FiberInfo | null> => {
+const resolveFiberInfo = async (
+	element: Element,
+	options: FiberInfoOptions = {},
+): Promise<FiberInfo | null> => {
 	if (!element) return null;
 
 	try {
 		const fiber = getFiberFromHostInstance(element);
 
-		if (!fiber) {
-			// Fallback to basic element info if no fiber found
-			return {
-				componentName: element.tagName.toLowerCase(),
-				props: {},
-				source: null,
-			};
-		}
+		// Fallback to basic element info if no fiber found
+		if (!fiber) return getElementInfo(element);
+
+		return await getFiberInfoFromFiber(
+			fiber,
+			element.tagName.toLowerCase(),
+			options,
+		);
+	} catch (error) {
+		console.warn("Failed to get fiber info:", error);
+		// Fallback to basic element info
+		return getElementInfo(element);
+	}
+};
+
+// Hover label lookups, reused while the pointer moves back and forth
+const inspectorCache = new WeakMap<Element | Fiber, Promise<InspectorInfo>>();
+
+// Cheaper cousin of getFiberInfo: name, owner and source only, no props or
+// ancestor chain. Accepts a host element or a component fiber.
+const getInspectorInfo = (
+	target: Element | Fiber,
+	options: PathOptions,
+): Promise<InspectorInfo> => {
+	const cached = inspectorCache.get(target);
+	if (cached) return cached;
+
+	const fallbackName =
+		target instanceof Element ? target.tagName.toLowerCase() : "Anonymous";
+	const fallback: InspectorInfo =
+		target instanceof Element
+			? {
+					componentName: fallbackName,
+					ownerName: target.getAttribute("data-ai-component"),
+					source: getStampedSource(target),
+				}
+			: { componentName: fallbackName, ownerName: null, source: null };
+
+	const pending = (async (): Promise<InspectorInfo> => {
+		const fiber =
+			target instanceof Element ? getFiberFromHostInstance(target) : target;
+		if (!fiber) return fallback;
 
 		const latestFiber = getLatestFiber(fiber);
-		const componentName =
-			getDisplayName(latestFiber.type) || element.tagName.toLowerCase();
-		const props = latestFiber.memoizedProps || {};
+		let owner = latestFiber.return;
+		while (owner && !(isCompositeFiber(owner) && getDisplayName(owner.type))) {
+			owner = owner.return;
+		}
 
-		// Get source information asynchronously
-		let source = null;
+		let source: FiberSource | null = null;
 		try {
-			source = await getFiberSource(latestFiber);
-		} catch (sourceError) {
-			console.warn("Failed to get fiber source:", sourceError);
+			source =
+				(await getUserSource(latestFiber, options)) ??
+				getFiberStampedSource(latestFiber) ??
+				(owner ? await getUserSource(owner, options) : null);
+		} catch {
+			// The label still shows the names without a location
 		}
 
 		return {
-			componentName,
-			props,
+			componentName: getDisplayName(latestFiber.type) || fallbackName,
+			ownerName: owner ? getDisplayName(owner.type) : null,
 			source,
 		};
+	})().catch(() => fallback);
+
+	inspectorCache.set(target, pending);
+	return pending;
+};
+
+// Named user components that rendered the element, innermost first, with
+// the DOM nodes each one spans
+const getComponentHierarchy = async (
+	element: Element,
+	options: PathOptions,
+): Promise<MarqueeSelection[]> => {
+	const hostFiber = getFiberFromHostInstance(element);
+	if (!hostFiber) return [];
+
+	const composites: Fiber[] = [];
+	let current = getLatestFiber(hostFiber).return;
+	while (current) {
+		if (isCompositeFiber(current) && getDisplayName(current.type)) {
+			composites.push(current);
+		}
+		current = current.return;
+	}
+
+	const isUser = await Promise.all(
+		composites.map((fiber) => isUserComponent(fiber, options)),
+	);
+
+	return composites
+		.filter((_, index) => isUser[index])
+		.map((fiber) => ({
+			fiber,
+			elements: getNearestHostFibers(fiber)
+				.map((host) => host.stateNode)
+				.filter((node): node is Element => node instanceof Element),
+		}))
+		.filter((selection) => selection.elements.length > 0);
+};
+
+// Smallest rectangle around every element
+export const getUnionRect = (elements: Element[]): SelectionRect => {
+	const rects = elements.map((el) => el.getBoundingClientRect());
+	const left = Math.min(...rects.map((r) => r.left));
+	const top = Math.min(...rects.map((r) => r.top));
+	return {
+		left,
+		top,
+		width: Math.max(...rects.map((r) => r.right)) - left,
+		height: Math.max(...rects.map((r) => r.bottom)) - top,
+	};
+};
+
+// Component details for an element plus the DOM context enabled in options
+export const getFiberInfo = async (
+	element: Element,
+	options: FiberInfoOptions = {},
+): Promise<FiberInfo | null> =>
+	withElementContext(await resolveFiberInfo(element, options), element, options);
+
+const getSelectionFiberInfo = async (
+	selection: MarqueeSelection,
+	options: FiberInfoOptions,
+): Promise<FiberInfo | null> => {
+	if (!selection.fiber) return getFiberInfo(selection.elements[0], options);
+
+	try {
+		return withElementContext(
+			await getFiberInfoFromFiber(selection.fiber, "Anonymous", options),
+			selection.elements[0],
+			options,
+		);
 	} catch (error) {
 		console.warn("Failed to get fiber info:", error);
-		// Fallback to basic element info
-		return {
-			componentName: element.tagName.toLowerCase(),
-			props: {},
-			source: null,
-		};
+		return getFiberInfo(selection.elements[0], options);
 	}
 };
 
+const isSelectable = (el: Element | null): el is Element =>
+	!!el &&
+	el !== document.documentElement &&
+	el !== document.body &&
+	!el.closest(".ai-toolbar-container");
+
+// Element the keyboard traversal moves to, or null to stay put
+const getTraversalTarget = (
+	event: KeyboardEvent,
+	current: Element,
+	hotkeys: NonNullable<SingleSelectProps["hotkeys"]>,
+): Element | null => {
+	if (matchesHotkey(event, hotkeys.parent)) return current.parentElement;
+	if (matchesHotkey(event, hotkeys.child)) return current.firstElementChild;
+	if (matchesHotkey(event, hotkeys.nextSibling)) {
+		return current.nextElementSibling;
+	}
+	if (matchesHotkey(event, hotkeys.previousSibling)) {
+		return current.previousElementSibling;
+	}
+	return null;
+};
+
 // Hook for single select annotation
-export const useSingleSelect = ({ enabled, onAnnotate }: HookProps) => {
+export const useSingleSelect = ({
+	enabled,
+	onAnnotate,
+	ancestorDepth,
+	projectRoot,
+	styleContext,
+	designTokens,
+	accessibility,
+	componentState,
+	hotkeys = DEFAULT_HOTKEYS,
+	granularity = "element",
+}: SingleSelectProps) => {
 	const [element, setElement] = useState<Element | null>(null);
-	const [rect, setRect] = useState<DOMRect | null>(null);
+	const [rect, setRect] = useState<DOMRect | SelectionRect | null>(null);
+	const [component, setComponent] = useState<Fiber | null>(null);
+	const [info, setInfo] = useState<InspectorInfo | null>(null);
 	const lastElementRef = useRef<Element | null>(null);
+	// Component hierarchy under the pointer in "component" granularity
+	const hierarchyRef = useRef<ComponentHierarchy | null>(null);
 	const onAnnotateRef = useRef(onAnnotate);
+	const hotkeysRef = useRef(hotkeys);
 
 	// Keep onAnnotate ref up to date without triggering effects
 	useEffect(() => {
@@ -112,34 +476,105 @@ export const useSingleSelect = ({ enabled, onAnnotate }: HookProps) => {
 	}, [onAnnotate]);
 
 	useEffect(() => {
-		if (!enabled) {
+		hotkeysRef.current = hotkeys;
+	}, [hotkeys]);
+
+	useEffect(() => {
+		const reset = () => {
 			setElement(null);
 			setRect(null);
+			setComponent(null);
 			lastElementRef.current = null;
+			hierarchyRef.current = null;
+		};
+
+		if (!enabled) {
+			reset();
 			return;
 		}
 
-		const handleMouseMove = throttle((event: MouseEvent) => {
-			const el = document.elementFromPoint(event.clientX, event.clientY);
+		const options = {
+			ancestorDepth,
+			projectRoot,
+			styleContext,
+			designTokens,
+			accessibility,
+			componentState,
+		};
+		// Bumped on every hover so stale hierarchy lookups are ignored
+		let lookup = 0;
+
+		const showElement = (el: Element) => {
+			lastElementRef.current = el;
+			setElement(el);
+			setRect(el.getBoundingClientRect());
+			setComponent(null);
+		};
 
-			if (!el || el.closest(".ai-toolbar-container")) return;
+		const showLevel = (hierarchy: ComponentHierarchy) => {
+			const selection = hierarchy.levels[hierarchy.level];
+			if (!selection?.fiber) {
+				showElement(hierarchy.base);
+				return;
+			}
+			setElement(selection.elements[0]);
+			setRect(getUnionRect(selection.elements));
+			setComponent(selection.fiber);
+		};
 
+		const highlight = async (el: Element) => {
 			// Only update if element actually changed
-			if (el !== lastElementRef.current) {
-				lastElementRef.current = el;
-				setElement(el);
-				setRect(el.getBoundingClientRect());
+			if (el === lastElementRef.current) return;
+
+			if (granularity === "element") {
+				showElement(el);
+				return;
 			}
-		}, 32);
 
-		const handleClick = async (event: MouseEvent) => {
-			const el = document.elementFromPoint(event.clientX, event.clientY);
-			if (!el || el.closest(".ai-toolbar-container")) return;
+			lastElementRef.current = el;
+			const current = ++lookup;
+			const levels = await getComponentHierarchy(el, options);
+			if (current !== lookup) return;
 
-			event.preventDefault();
-			event.stopPropagation();
+			hierarchyRef.current = { base: el, levels, level: 0 };
+			showLevel(hierarchyRef.current);
+		};
+
+		// Step outward (positive) or inward through the hovered hierarchy
+		const stepLevel = (delta: number) => {
+			const hierarchy = hierarchyRef.current;
+			if (!hierarchy || hierarchy.levels.length === 0) return;
+			const level = Math.max(
+				0,
+				Math.min(hierarchy.levels.length - 1, hierarchy.level + delta),
+			);
+			if (level === hierarchy.level) return;
+			hierarchy.level = level;
+			showLevel(hierarchy);
+		};
+
+		const annotate = async (el: Element) => {
+			const hierarchy = hierarchyRef.current;
+			const selection =
+				granularity === "component" && hierarchy?.base === el
+					? hierarchy.levels[hierarchy.level]
+					: null;
 
-			const fiberInfo = await getFiberInfo(el);
+			if (selection) {
+				const fiberInfo = await getSelectionFiberInfo(selection, options);
+				if (fiberInfo && onAnnotateRef.current) {
+					onAnnotateRef.current({
+						element: selection.elements[0],
+						elements: selection.elements,
+						rect: getUnionRect(selection.elements),
+						fiberInfo,
+						id: Date.now(),
+					});
+				}
+				return;
+			}
+
+			const fiberInfo = await getFiberInfo(el, options);
 			if (fiberInfo && onAnnotateRef.current) {
 				onAnnotateRef.current({
 					element: el,
@@ -150,25 +585,144 @@ export const useSingleSelect = ({ enabled, onAnnotate }: HookProps) => {
 			}
 		};
 
+		const handleMouseMove = throttle((event: MouseEvent) => {
+			const el = document.elementFromPoint(event.clientX, event.clientY);
+
+			if (!el || el.closest(".ai-toolbar-container")) return;
+
+			highlight(el);
+		}, 32);
+
+		const handleClick = async (event: MouseEvent) => {
+			const el = document.elementFromPoint(event.clientX, event.clientY);
+			if (!el || el.closest(".ai-toolbar-container")) return;
+
+			event.preventDefault();
+			event.stopPropagation();
+
+			await annotate(el);
+		};
+
+		const handleWheel = (event: WheelEvent) => {
+			if (!event.altKey || !hierarchyRef.current) return;
+			event.preventDefault();
+			stepLevel(event.deltaY < 0 ? 1 : -1);
+		};
+
+		const handleKeyDown = (event: KeyboardEvent) => {
+			if (event.defaultPrevented || isEditableTarget(event.target)) return;
+
+			const current = lastElementRef.current;
+
+			if (current && matchesHotkey(event, hotkeysRef.current.annotate)) {
+				event.preventDefault();
+				annotate(current);
+				return;
+			}
+
+			const hotkeys = hotkeysRef.current;
+
+			// Parent and child keys walk the component hierarchy instead
+			if (granularity === "component" && hierarchyRef.current) {
+				if (matchesHotkey(event, hotkeys.parent)) {
+					event.preventDefault();
+					stepLevel(1);
+					return;
+				}
+				if (matchesHotkey(event, hotkeys.child)) {
+					event.preventDefault();
+					stepLevel(-1);
+					return;
+				}
+			}
+
+			const isTraversal = [
+				hotkeys.parent,
+				hotkeys.child,
+				hotkeys.nextSibling,
+				hotkeys.previousSibling,
+			].some((hotkey) => matchesHotkey(event, hotkey));
+			if (!isTraversal) return;
+
+			// Arrow keys would otherwise scroll the page
+			event.preventDefault();
+
+			// Keyboard users start from the focused element
+			const target = current
+				? getTraversalTarget(event, current, hotkeys)
+				: isSelectable(document.activeElement)
+					? document.activeElement
+					: document.body.firstElementChild;
+
+			if (isSelectable(target)) highlight(target);
+		};
+
 		document.addEventListener("mousemove", handleMouseMove);
 		document.addEventListener("click", handleClick, true);
+		document.addEventListener("keydown", handleKeyDown);
+		// Not passive, so the page doesn't scroll while stepping
+		document.addEventListener("wheel", handleWheel, { passive: false });
 
 		return () => {
+			lookup++;
 			document.removeEventListener("mousemove", handleMouseMove);
 			document.removeEventListener("click", handleClick, true);
+			document.removeEventListener("keydown", handleKeyDown);
+			document.removeEventListener("wheel", handleWheel);
+			reset();
 		};
-	}, [enabled]); // Only depend on enabled
+	}, [
+		enabled,
+		ancestorDepth,
+		projectRoot,
+		styleContext,
+		designTokens,
+		accessibility,
+		componentState,
+		granularity,
+	]);
+
+	// Resolve the hover label once the pointer rests on an element
+	useEffect(() => {
+		setInfo(null);
+		const target = component ?? element;
+		if (!target) return;
 
-	return { element, rect };
+		let cancelled = false;
+		const timeout = setTimeout(() => {
+			getInspectorInfo(target, { projectRoot }).then((result) => {
+				if (!cancelled) setInfo(result);
+			});
+		}, INSPECTOR_DELAY);
+
+		return () => {
+			cancelled = true;
+			clearTimeout(timeout);
+		};
+	}, [element, component, projectRoot]);
+
+	return { element, rect, info };
 };
 
 // Hook for draw select mode
-export const useDrawSelect = ({ enabled, onAnnotate }: HookProps) => {
+export const useDrawSelect = ({
+	enabled,
+	onAnnotate,
+	ancestorDepth,
+	projectRoot,
+	styleContext,
+	designTokens,
+	accessibility,
+	componentState,
+}: HookProps) => {
 	const [isDrawing, setIsDrawing] = useState(false);
 	const [startPos, setStartPos] = useState<Position | null>(null);
 	const [currentPos, setCurrentPos] = useState<Position | null>(null);
 	const [selectedElements, setSelectedElements] = useState<Element[]>([]);
 	const onAnnotateRef = useRef(onAnnotate);
+	// Mirror the drag positions in refs so listeners stay subscribed once
+	const startPosRef = useRef<Position | null>(null);
+	const currentPosRef = useRef<Position | null>(null);
 
 	// Keep onAnnotate ref up to date without triggering effects
 	useEffect(() => {
@@ -176,84 +730,133 @@ export const useDrawSelect = ({ enabled, onAnnotate }: HookProps) => {
 	}, [onAnnotate]);
 
 	useEffect(() => {
-		if (!enabled) {
+		const reset = () => {
+			startPosRef.current = null;
+			currentPosRef.current = null;
 			setIsDrawing(false);
 			setStartPos(null);
 			setCurrentPos(null);
 			setSelectedElements([]);
+		};
+
+		if (!enabled) {
+			reset();
 			return;
 		}
 
 		const handleMouseDown = (e: MouseEvent) => {
+			if (e.button !== 0) return;
 			if ((e.target as Element)?.closest(".ai-toolbar-container")) return;
 
-			setIsDrawing(true);
+			// Avoid selecting page text while drawing
+			e.preventDefault();
+
 			const pos = { x: e.clientX, y: e.clientY };
+			startPosRef.current = pos;
+			currentPosRef.current = pos;
+			setIsDrawing(true);
 			setStartPos(pos);
 			setCurrentPos(pos);
 		};
 
+		// Resolving components walks fibers, so keep the live preview cheap.
+		// Results from an older drag position are dropped.
+		let previewId = 0;
+		const updatePreview = throttle(async () => {
+			const rect = getSelectionRect(
+				startPosRef.current,
+				currentPosRef.current,
+			);
+			if (!rect) return;
+			const id = ++previewId;
+			const selections = await findComponentsInRect(rect, { projectRoot });
+			if (id !== previewId || !startPosRef.current) return;
+			setSelectedElements(
+				selections.flatMap((selection) => selection.elements),
+			);
+		}, 50);
+
 		const handleMouseMove = (e: MouseEvent) => {
-			if (!isDrawing) return;
+			if (!startPosRef.current) return;
 
 			const newPos = { x: e.clientX, y: e.clientY };
+			currentPosRef.current = newPos;
 			setCurrentPos(newPos);
+			updatePreview();
 		};
 
 		const handleMouseUp = async () => {
-			if (!isDrawing) return;
+			if (!startPosRef.current) return;
 
 			// Calculate final selection
-			const rect = getSelectionRect(startPos, currentPos);
-			const elements = rect ? findElementsInRect(rect) : [];
-
-			if (elements.length > 0 && onAnnotateRef.current) {
-				const fiberInfoPromises = elements.map((el) => getFiberInfo(el));
-				const fiberInfoResults = await Promise.all(fiberInfoPromises);
-				const fiberInfo = fiberInfoResults.filter(
-					(info): info is FiberInfo => info !== null,
-				);
-
-				if (rect) {
-					onAnnotateRef.current({
-						elements: elements,
-						rect,
-						fiberInfo,
-						id: Date.now(),
-					});
-				}
+			const rect = getSelectionRect(
+				startPosRef.current,
+				currentPosRef.current,
+			);
+			reset();
+
+			if (
+				!rect ||
+				rect.width < MIN_MARQUEE_SIZE ||
+				rect.height < MIN_MARQUEE_SIZE
+			) {
+				return;
 			}
 
-			setIsDrawing(false);
-			setStartPos(null);
-			setCurrentPos(null);
-			setSelectedElements([]);
+			const selections = await findComponentsInRect(rect, { projectRoot });
+			if (selections.length === 0 || !onAnnotateRef.current) return;
+
+			const fiberInfoResults = await Promise.all(
+				selections.map((selection) =>
+					getSelectionFiberInfo(selection, {
+						ancestorDepth,
+						projectRoot,
+						styleContext,
+						designTokens,
+						accessibility,
+						componentState,
+					}),
+				),
+			);
+			const fiberInfo = fiberInfoResults.filter(
+				(info): info is FiberInfo => info !== null,
+			);
+
+			onAnnotateRef.current({
+				elements: selections.flatMap((selection) => selection.elements),
+				rect,
+				fiberInfo,
+				id: Date.now(),
+			});
+		};
+
+		// Swallow the click that ends a drag so links and buttons don't fire
+		const handleClick = (e: MouseEvent) => {
+			if ((e.target as Element)?.closest(".ai-toolbar-container")) return;
+			e.preventDefault();
+			e.stopPropagation();
 		};
 
 		document.addEventListener("mousedown", handleMouseDown);
 		document.addEventListener("mousemove", handleMouseMove);
 		document.addEventListener("mouseup", handleMouseUp);
+		document.addEventListener("click", handleClick, true);
 
 		return () => {
 			document.removeEventListener("mousedown", handleMouseDown);
 			document.removeEventListener("mousemove", handleMouseMove);
 			document.removeEventListener("mouseup", handleMouseUp);
+			document.removeEventListener("click", handleClick, true);
 		};
-	}, [enabled, isDrawing, startPos, currentPos]); // Include drawing state
-
-	// Update selected elements as user drags
-	useEffect(() => {
-		if (!enabled || !isDrawing || !startPos || !currentPos) {
-			setSelectedElements([]);
-			return;
-		}
-
-		const rect = getSelectionRect(startPos, currentPos);
-		if (rect) {
-			const elements = findElementsInRect(rect);
-			setSelectedElements(elements);
-		}
-	}, [enabled, isDrawing, startPos, currentPos]);
+	}, [
+		enabled,
+		ancestorDepth,
+		projectRoot,
+		styleContext,
+		designTokens,
+		accessibility,
+		componentState,
+	]);
 
 	return { isDrawing, startPos, currentPos, selectedElements };
 };
@@ -280,7 +883,8 @@ const findElementsInRect = (rect: SelectionRect | null): Element[] => {
 	allElements.forEach((el) => {
 		if (el.closest(".ai-toolbar-container")) return;
 		const elRect = el.getBoundingClientRect();
-		if (isRectIntersecting(rect, elRect)) {
+		if (elRect.width === 0 && elRect.height === 0) return;
+		if (isRectContained(rect, elRect)) {
 			elements.push(el);
 		}
 	});
@@ -288,11 +892,117 @@ const findElementsInRect = (rect: SelectionRect | null): Element[] => {
 	return elements;
 };
 
-const isRectIntersecting = (rect1: SelectionRect, rect2: DOMRect): boolean => {
-	return !(
-		rect1.left + rect1.width < rect2.left ||
-		rect2.left + rect2.width < rect1.left ||
-		rect1.top + rect1.height < rect2.top ||
-		rect2.top + rect2.height < rect1.top
+const hasFiber = (fibers: Set<Fiber>, fiber: Fiber) =>
+	fibers.has(fiber) || (!!fiber.alternate && fibers.has(fiber.alternate));
+
+// Collapse every element inside the rectangle to the outermost user
+// components whose DOM sits entirely inside it. Falls back to the outermost
+// host elements when no component fits.
+const findComponentsInRect = async (
+	rect: SelectionRect,
+	options: PathOptions,
+): Promise<MarqueeSelection[]> => {
+	const elements = findElementsInRect(rect);
+	const contained = new Set<Element>(elements);
+	const containment = new Map<Fiber, boolean>();
+	const candidates = new Set<Fiber>();
+
+	// Hidden or empty nodes have no box of their own, so they count as
+	// contained when their parent is
+	const isContained = (el: Element): boolean => {
+		if (contained.has(el)) return true;
+		const { width, height } = el.getBoundingClientRect();
+		if (width !== 0 || height !== 0 || !el.parentElement) return false;
+		const result = isContained(el.parentElement);
+		if (result) contained.add(el);
+		return result;
+	};
+
+	const isFiberContained = (fiber: Fiber) => {
+		const cached = containment.get(fiber);
+		if (cached !== undefined) return cached;
+		const hosts = getNearestHostFibers(fiber);
+		const result =
+			hosts.length > 0 &&
+			hosts.every(
+				(host) =>
+					host.stateNode instanceof Element && isContained(host.stateNode),
+			);
+		containment.set(fiber, result);
+		return result;
+	};
+
+	for (const el of elements) {
+		const hostFiber = getFiberFromHostInstance(el);
+		let current = hostFiber?.return ?? null;
+
+		while (current) {
+			if (isHostFiber(current)) {
+				if (!isContained(current.stateNode as Element)) break;
+			} else if (isCompositeFiber(current)) {
+				if (!isFiberContained(current)) break;
+				if (getDisplayName(current.type) && !hasFiber(candidates, current)) {
+					candidates.add(current);
+				}
+			}
+			current = current.return;
+		}
+	}
+
+	// Framework wrappers such as Next's layout routers and error boundaries
+	// would otherwise be the outermost match for a whole page section
+	const candidateList = [...candidates];
+	const isUser = await Promise.all(
+		candidateList.map((fiber) => isUserComponent(fiber, options)),
+	);
+	const userCandidates = new Set(
+		candidateList.filter((_, index) => isUser[index]),
+	);
+
+	const selections: MarqueeSelection[] = [];
+
+	for (const fiber of userCandidates) {
+		// Drop components nested inside another selected component
+		let parent = fiber.return;
+		let nested = false;
+		while (parent) {
+			if (hasFiber(userCandidates, parent)) {
+				nested = true;
+				break;
+			}
+			parent = parent.return;
+		}
+		if (nested) continue;
+
+		selections.push({
+			fiber,
+			elements: getNearestHostFibers(fiber).map(
+				(host) => host.stateNode as Element,
+			),
+		});
+	}
+
+	if (selections.length === 0) {
+		for (const el of elements) {
+			if (el.parentElement && contained.has(el.parentElement)) continue;
+			selections.push({ fiber: null, elements: [el] });
+		}
+	}
+
+	// Report selections in document order
+	return selections.sort((a, b) =>
+		a.elements[0].compareDocumentPosition(b.elements[0]) &
+		Node.DOCUMENT_POSITION_FOLLOWING
+			? -1
+			: 1,
+	);
+};
+
+const isRectContained = (outer: SelectionRect, inner: DOMRect): boolean => {
+	return (
+		inner.left >= outer.left &&
+		inner.top >= outer.top &&
+		inner.left + inner.width <= outer.left + outer.width &&
+		inner.top + inner.height <= outer.top + outer.height
 	);
 };
@@ -0,0 +1,30 @@
+import { useEffect, useState } from "react";
+
+import { TOOLBAR_STYLES } from "../lib/theme";
+
+// Shadow root on a host element at the end of <body>, styled by the bundled
+// stylesheet. The host carries the `ai-toolbar-container` class, which the
+// selection hooks and screenshots already skip. Null until mounted.
+export const useShadowRoot = () => {
+	const [root, setRoot] = useState<ShadowRoot | null>(null);
+
+	useEffect(() => {
+		const host = document.createElement("div");
+		host.className = "ai-toolbar-container";
+		const shadow = host.attachShadow({ mode: "open" });
+
+		const style = document.createElement("style");
+		style.textContent = TOOLBAR_STYLES;
+		shadow.appendChild(style);
+
+		document.body.appendChild(host);
+		setRoot(shadow);
+
+		return () => {
+			host.remove();
+			setRoot(null);
+		};
+	}, []);
+
+	return root;
+};
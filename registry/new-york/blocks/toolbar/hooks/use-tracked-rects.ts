@@ -0,0 +1,219 @@
+import { useEffect, useRef, useState } from "react";
+
+import { findElement, getAnnotationElements } from "../lib/session";
+import type { AnnotationData, SelectionRect } from "../types";
+import { getUnionRect } from "./use-bippy";
+
+export interface TrackedRect {
+	rect: DOMRect | SelectionRect;
+	// The element was unmounted or hidden, `rect` is the last known position
+	detached: boolean;
+}
+
+const isScrollable = (element: Element) => {
+	const { overflowX, overflowY } = getComputedStyle(element);
+	return /auto|scroll|overlay/.test(`${overflowX} ${overflowY}`);
+};
+
+const getScrollParents = (element: Element) => {
+	const parents: Element[] = [];
+	let current = element.parentElement;
+	while (current && current !== document.body) {
+		if (isScrollable(current)) parents.push(current);
+		current = current.parentElement;
+	}
+	return parents;
+};
+
+const isVisible = (element: Element) => {
+	if (!element.isConnected) return false;
+	if (typeof element.checkVisibility === "function") {
+		return element.checkVisibility();
+	}
+	const rect = element.getBoundingClientRect();
+	return rect.width > 0 || rect.height > 0;
+};
+
+// Looking a lost element up again scans the page, so after a miss wait this
+// long before the next try, doubling up to REFIND_MAX_DELAY
+const REFIND_DELAY = 250;
+const REFIND_MAX_DELAY = 4000;
+
+const sameRect = (a: TrackedRect | undefined, b: TrackedRect) =>
+	!!a &&
+	a.detached === b.detached &&
+	a.rect.left === b.rect.left &&
+	a.rect.top === b.rect.top &&
+	a.rect.width === b.rect.width &&
+	a.rect.height === b.rect.height;
+
+const sameElements = (a: Element[], b: Element[]) =>
+	a.length === b.length && a.every((element, idx) => element === b[idx]);
+
+// Same ids and elements in the same order, whatever else (like the comment)
+// changed
+const sameTargets = (a: AnnotationData[], b: AnnotationData[]) =>
+	a.length === b.length &&
+	a.every(
+		(annotation, idx) =>
+			annotation.id === b[idx].id &&
+			sameElements(
+				getAnnotationElements(annotation),
+				getAnnotationElements(b[idx]),
+			),
+	);
+
+// Live viewport rects for annotated elements. Re-measures on scroll of any
+// scroll ancestor, element resizes and DOM changes, and re-finds elements
+// that React replaced through their stored locators.
+export const useTrackedRects = (annotations: AnnotationData[]) => {
+	const [rects, setRects] = useState<Map<number, TrackedRect>>(new Map());
+	// Observers are only rebuilt when the tracked elements change, not on
+	// every comment keystroke. Rects and locators are read from the latest
+	// annotations.
+	const [tracked, setTracked] = useState(annotations);
+	if (tracked !== annotations && !sameTargets(tracked, annotations)) {
+		setTracked(annotations);
+	}
+	const latestRef = useRef(annotations);
+
+	useEffect(() => {
+		latestRef.current = annotations;
+	}, [annotations]);
+
+	useEffect(() => {
+		if (tracked.length === 0) {
+			setRects(new Map());
+			return;
+		}
+
+		const targets = tracked.map((annotation) => ({
+			id: annotation.id,
+			elements: getAnnotationElements(annotation),
+			// When the next lookup of a lost element may run
+			refindAt: 0,
+			refindDelay: REFIND_DELAY,
+		}));
+		let frame = 0;
+		let retry: ReturnType<typeof setTimeout> | null = null;
+		let current = new Map<number, TrackedRect>();
+
+		const schedule = () => {
+			if (!frame) frame = requestAnimationFrame(measure);
+		};
+
+		// Measure again once the earliest skipped lookup is due, in case the
+		// page goes quiet before then
+		const scheduleRetry = (at: number) => {
+			if (retry) return;
+			retry = setTimeout(
+				() => {
+					retry = null;
+					schedule();
+				},
+				Math.max(0, at - performance.now()),
+			);
+		};
+
+		const resizeObserver = new ResizeObserver(schedule);
+		const scrollParents = new Set<EventTarget>();
+
+		const observe = (elements: Element[]) => {
+			for (const element of elements) {
+				resizeObserver.observe(element);
+				for (const parent of getScrollParents(element)) {
+					if (scrollParents.has(parent)) continue;
+					scrollParents.add(parent);
+					parent.addEventListener("scroll", schedule, { passive: true });
+				}
+			}
+		};
+
+		const measure = () => {
+			frame = 0;
+			const next = new Map<number, TrackedRect>();
+
+			const now = performance.now();
+			const annotations = new Map(
+				latestRef.current.map((annotation) => [annotation.id, annotation]),
+			);
+
+			for (const target of targets) {
+				const annotation = annotations.get(target.id);
+				if (!annotation) continue;
+
+				// React may have swapped the node on re-render
+				if (
+					target.elements.some((element) => !element.isConnected) &&
+					annotation.locators?.length
+				) {
+					if (now < target.refindAt) {
+						scheduleRetry(target.refindAt);
+					} else {
+						const found = annotation.locators.map(findElement);
+						if (found.every((element) => element !== null)) {
+							target.elements = found as Element[];
+							target.refindDelay = REFIND_DELAY;
+							observe(target.elements);
+						} else {
+							target.refindAt = now + target.refindDelay;
+							target.refindDelay = Math.min(
+								target.refindDelay * 2,
+								REFIND_MAX_DELAY,
+							);
+							scheduleRetry(target.refindAt);
+						}
+					}
+				}
+
+				const visible = target.elements.filter(isVisible);
+				const detached =
+					visible.length === 0 || visible.length !== target.elements.length;
+				next.set(target.id, {
+					rect:
+						visible.length > 0
+							? getUnionRect(visible)
+							: (current.get(target.id)?.rect ?? annotation.rect),
+					detached,
+				});
+			}
+
+			// Skipping no-op updates also keeps our own overlay re-renders from
+			// feeding back through the MutationObserver
+			const changed =
+				next.size !== current.size ||
+				[...next].some(([id, rect]) => !sameRect(current.get(id), rect));
+			if (changed) {
+				current = next;
+				setRects(next);
+			}
+		};
+
+		const mutationObserver = new MutationObserver(schedule);
+		mutationObserver.observe(document.body, {
+			childList: true,
+			subtree: true,
+			attributes: true,
+			attributeFilter: ["class", "style", "hidden"],
+		});
+
+		for (const target of targets) observe(target.elements);
+		window.addEventListener("scroll", schedule, { passive: true });
+		window.addEventListener("resize", schedule);
+		measure();
+
+		return () => {
+			cancelAnimationFrame(frame);
+			if (retry) clearTimeout(retry);
+			resizeObserver.disconnect();
+			mutationObserver.disconnect();
+			for (const parent of scrollParents) {
+				parent.removeEventListener("scroll", schedule);
+			}
+			window.removeEventListener("scroll", schedule);
+			window.removeEventListener("resize", schedule);
+		};
+	}, [tracked]);
+
+	return rects;
+};
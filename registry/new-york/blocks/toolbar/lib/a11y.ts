@@ -0,0 +1,373 @@
+import type { AccessibilityContext, ContrastInfo } from "../types";
+import { parseColor, type Rgba } from "./tokens";
+
+// Accessibility facts about an element and a few local checks. This is a
+// pragmatic approximation of the accessible name computation, not a full
+// implementation of the spec.
+
+const INPUT_ROLES: Record<string, string> = {
+	button: "button",
+	submit: "button",
+	reset: "button",
+	image: "button",
+	checkbox: "checkbox",
+	radio: "radio",
+	range: "slider",
+	number: "spinbutton",
+	search: "searchbox",
+	email: "textbox",
+	tel: "textbox",
+	text: "textbox",
+	url: "textbox",
+	password: "textbox",
+};
+
+const TAG_ROLES: Record<string, string> = {
+	article: "article",
+	aside: "complementary",
+	button: "button",
+	dialog: "dialog",
+	footer: "contentinfo",
+	form: "form",
+	h1: "heading",
+	h2: "heading",
+	h3: "heading",
+	h4: "heading",
+	h5: "heading",
+	h6: "heading",
+	header: "banner",
+	hr: "separator",
+	li: "listitem",
+	main: "main",
+	nav: "navigation",
+	ol: "list",
+	option: "option",
+	progress: "progressbar",
+	table: "table",
+	textarea: "textbox",
+	ul: "list",
+};
+
+// Roles whose name comes from their content when no label is given
+const NAME_FROM_CONTENT = new Set([
+	"button",
+	"cell",
+	"checkbox",
+	"columnheader",
+	"gridcell",
+	"heading",
+	"link",
+	"menuitem",
+	"option",
+	"radio",
+	"row",
+	"rowheader",
+	"switch",
+	"tab",
+	"tooltip",
+	"treeitem",
+]);
+
+const INTERACTIVE_ROLES = new Set([
+	"button",
+	"checkbox",
+	"combobox",
+	"link",
+	"menuitem",
+	"radio",
+	"searchbox",
+	"slider",
+	"spinbutton",
+	"switch",
+	"tab",
+	"textbox",
+]);
+
+const FORM_CONTROL_ROLES = new Set([
+	"checkbox",
+	"combobox",
+	"listbox",
+	"radio",
+	"searchbox",
+	"slider",
+	"spinbutton",
+	"textbox",
+]);
+
+export const getRole = (element: Element): string | null => {
+	const explicit = element.getAttribute("role")?.trim().split(/\s+/)[0];
+	if (explicit) return explicit;
+
+	const tagName = element.tagName.toLowerCase();
+	if (tagName === "a" || tagName === "area") {
+		return element.hasAttribute("href") ? "link" : null;
+	}
+	if (tagName === "img") {
+		return element.getAttribute("alt") === "" ? "presentation" : "img";
+	}
+	if (tagName === "input") {
+		const type = (element.getAttribute("type") ?? "text").toLowerCase();
+		return INPUT_ROLES[type] ?? null;
+	}
+	if (tagName === "select") {
+		const select = element as HTMLSelectElement;
+		return select.multiple || select.size > 1 ? "listbox" : "combobox";
+	}
+	if (tagName === "section") {
+		return element.hasAttribute("aria-label") ||
+			element.hasAttribute("aria-labelledby")
+			? "region"
+			: null;
+	}
+	return TAG_ROLES[tagName] ?? null;
+};
+
+const textOfIds = (ids: string) =>
+	ids
+		.split(/\s+/)
+		.map((id) => document.getElementById(id))
+		.filter((el): el is HTMLElement => el !== null)
+		.map((el) => nameFromContent(el))
+		.join(" ")
+		.trim();
+
+const nameFromContent = (node: Node): string => {
+	if (node.nodeType === Node.TEXT_NODE) return node.textContent ?? "";
+	if (!(node instanceof Element)) return "";
+	if (node.getAttribute("aria-hidden") === "true") return "";
+	if (node instanceof HTMLElement && node.hidden) return "";
+
+	const label = node.getAttribute("aria-label")?.trim();
+	if (label) return label;
+	if (node instanceof HTMLImageElement) return node.alt;
+	if (node.tagName.toLowerCase() === "svg") {
+		return node.querySelector("title")?.textContent ?? "";
+	}
+
+	return [...node.childNodes].map(nameFromContent).join(" ");
+};
+
+const collapse = (text: string) => text.replace(/\s+/g, " ").trim();
+
+export const getLabels = (element: Element) => {
+	const labels =
+		"labels" in element && element.labels instanceof NodeList
+			? [...(element.labels as NodeListOf<HTMLLabelElement>)]
+			: [];
+	return labels.map((label) => collapse(nameFromContent(label)));
+};
+
+export const getAccessibleName = (element: Element, role: string | null) => {
+	const labelledBy = element.getAttribute("aria-labelledby");
+	if (labelledBy) {
+		const text = collapse(textOfIds(labelledBy));
+		if (text) return text;
+	}
+
+	const label = element.getAttribute("aria-label")?.trim();
+	if (label) return label;
+
+	const labels = getLabels(element).filter(Boolean);
+	if (labels.length > 0) return labels.join(" ");
+
+	if (element instanceof HTMLImageElement && element.alt) return element.alt;
+	if (
+		element instanceof HTMLInputElement &&
+		["button", "submit", "reset"].includes(element.type)
+	) {
+		return element.value;
+	}
+
+	if (role && NAME_FROM_CONTENT.has(role)) {
+		const text = collapse(nameFromContent(element));
+		if (text) return text;
+	}
+
+	return element.getAttribute("title")?.trim() ?? "";
+};
+
+const getDescription = (element: Element) => {
+	const describedBy = element.getAttribute("aria-describedby");
+	if (describedBy) {
+		const text = collapse(textOfIds(describedBy));
+		if (text) return text;
+	}
+	return element.getAttribute("aria-description")?.trim() || null;
+};
+
+// WCAG relative luminance of an sRGB color
+const luminance = ([r, g, b]: Rgba) => {
+	const [lr, lg, lb] = [r, g, b].map((channel) => {
+		const c = channel / 255;
+		return c <= 0.03928 ? c / 12.92 : ((c + 0.055) / 1.055) ** 2.4;
+	});
+	return 0.2126 * lr + 0.7152 * lg + 0.0722 * lb;
+};
+
+// Paint `top` over `bottom`
+const blend = (top: Rgba, bottom: Rgba): Rgba => {
+	const alpha = top[3] / 255;
+	return [
+		Math.round(top[0] * alpha + bottom[0] * (1 - alpha)),
+		Math.round(top[1] * alpha + bottom[1] * (1 - alpha)),
+		Math.round(top[2] * alpha + bottom[2] * (1 - alpha)),
+		255,
+	];
+};
+
+// Background behind the element, compositing translucent ancestors over
+// white. Background images are ignored.
+const getEffectiveBackground = (element: Element): Rgba => {
+	const layers: Rgba[] = [];
+	let current: Element | null = element;
+	while (current) {
+		const color = parseColor(getComputedStyle(current).backgroundColor);
+		if (color && color[3] > 0) {
+			layers.push(color);
+			if (color[3] === 255) break;
+		}
+		current = current.parentElement;
+	}
+	return layers.reduceRight<Rgba>(
+		(bottom, top) => blend(top, bottom),
+		[255, 255, 255, 255],
+	);
+};
+
+export const getContrast = (element: Element): ContrastInfo | null => {
+	if (!collapse(element.textContent ?? "")) return null;
+
+	const computed = getComputedStyle(element);
+	const foreground = parseColor(computed.color);
+	if (!foreground) return null;
+
+	const background = getEffectiveBackground(element);
+	const text = blend(foreground, background);
+	const [lighter, darker] = [luminance(text), luminance(background)].sort(
+		(a, b) => b - a,
+	);
+
+	const fontSize = Number.parseFloat(computed.fontSize);
+	const bold = Number.parseInt(computed.fontWeight, 10) >= 700;
+	// 18pt, or 14pt bold, in CSS pixels
+	const large = fontSize >= 24 || (bold && fontSize >= 18.66);
+
+	return {
+		ratio: Math.round(((lighter + 0.05) / (darker + 0.05)) * 100) / 100,
+		required: large ? 3 : 4.5,
+		foreground: computed.color,
+		background: `rgb(${background[0]}, ${background[1]}, ${background[2]})`,
+	};
+};
+
+const getAriaAttributes = (element: Element) =>
+	Object.fromEntries(
+		[...element.attributes]
+			.filter((attribute) => attribute.name.startsWith("aria-"))
+			.map((attribute) => [attribute.name, attribute.value]),
+	);
+
+const isDisabled = (element: Element) =>
+	(element as HTMLButtonElement).disabled === true ||
+	element.getAttribute("aria-disabled") === "true";
+
+const INTERACTIVE_SELECTOR =
+	"a[href], button, input, select, textarea, summary, [role='button'], [role='link'], [role='menuitem'], [role='tab']";
+
+const runChecks = (
+	element: Element,
+	context: Omit<AccessibilityContext, "issues">,
+) => {
+	const issues: string[] = [];
+	const { role, name } = context;
+
+	if (
+		role &&
+		INTERACTIVE_ROLES.has(role) &&
+		!FORM_CONTROL_ROLES.has(role) &&
+		!name
+	) {
+		const iconOnly =
+			!collapse(element.textContent ?? "") &&
+			!!element.querySelector("svg, img");
+		issues.push(
+			iconOnly
+				? `Icon-only ${role} has no accessible name. Add an aria-label or visually hidden text.`
+				: `The ${role} has no accessible name.`,
+		);
+	}
+
+	// Bare icons like a settings cog that look clickable but aren't controls
+	if (
+		element.tagName.toLowerCase() === "svg" &&
+		!role &&
+		!name &&
+		!element.closest("[aria-hidden='true']") &&
+		!element.parentElement?.closest(INTERACTIVE_SELECTOR)
+	) {
+		issues.push(
+			'Icon has no accessible name and is not hidden from assistive technology. If it acts as a control, wrap it in a <button aria-label="…">; if it is decorative, add aria-hidden="true".',
+		);
+	}
+
+	if (element instanceof HTMLImageElement && !element.hasAttribute("alt")) {
+		issues.push(
+			'Image is missing an alt attribute (use alt="" if decorative).',
+		);
+	}
+
+	if (role && FORM_CONTROL_ROLES.has(role) && !name) {
+		issues.push("Form control has no associated <label> or aria-label.");
+	}
+
+	if (context.tabIndex !== null && context.tabIndex > 0) {
+		issues.push(
+			`Positive tabindex (${context.tabIndex}) overrides the natural tab order.`,
+		);
+	}
+
+	if (context.focusable && element.closest("[aria-hidden='true']")) {
+		issues.push("Focusable element is inside aria-hidden content.");
+	}
+
+	if (
+		role &&
+		INTERACTIVE_ROLES.has(role) &&
+		!context.focusable &&
+		!isDisabled(element)
+	) {
+		issues.push(`The ${role} can't be reached with the keyboard.`);
+	}
+
+	const { contrast } = context;
+	if (contrast && contrast.ratio < contrast.required) {
+		issues.push(
+			`Text contrast ${contrast.ratio}:1 is below the WCAG AA minimum of ${contrast.required}:1.`,
+		);
+	}
+
+	return issues;
+};
+
+export const getAccessibilityContext = (
+	element: Element,
+): AccessibilityContext => {
+	const role = getRole(element);
+	const tabIndexAttribute = element.getAttribute("tabindex");
+	const context = {
+		role,
+		name: getAccessibleName(element, role),
+		description: getDescription(element),
+		aria: getAriaAttributes(element),
+		focusable:
+			element instanceof HTMLElement &&
+			element.tabIndex >= 0 &&
+			!isDisabled(element) &&
+			!element.closest("[inert]"),
+		tabIndex: tabIndexAttribute === null ? null : Number(tabIndexAttribute),
+		labels: getLabels(element),
+		contrast: getContrast(element),
+	};
+
+	return { ...context, issues: runChecks(element, context) };
+};
@@ -0,0 +1,58 @@
+import type {
+	AnnotationScreenshot,
+	BridgeEntry,
+	SerializedAnnotation,
+} from "../types";
+
+// Client for the dev-only route handler in `api/route.ts`
+
+interface BridgePayload {
+	prompt: string;
+	annotations: SerializedAnnotation[];
+	screenshots?: AnnotationScreenshot[];
+}
+
+// Queue an annotation batch, resolves to the new queue length
+export const postToBridge = async (
+	bridgeUrl: string,
+	payload: BridgePayload,
+): Promise<number | null> => {
+	try {
+		const response = await fetch(bridgeUrl, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify({ ...payload, url: window.location.pathname }),
+		});
+		if (!response.ok) throw new Error(`Bridge responded ${response.status}`);
+		const { count } = (await response.json()) as { count: number };
+		return count;
+	} catch (err) {
+		console.error("Failed to send annotations to bridge:", err);
+		return null;
+	}
+};
+
+export const fetchBridgeQueue = async (
+	bridgeUrl: string,
+): Promise<BridgeEntry[] | null> => {
+	try {
+		const response = await fetch(bridgeUrl);
+		if (!response.ok) throw new Error(`Bridge responded ${response.status}`);
+		const { entries } = (await response.json()) as { entries: BridgeEntry[] };
+		return entries;
+	} catch (err) {
+		console.warn("Failed to read bridge queue:", err);
+		return null;
+	}
+};
+
+export const clearBridgeQueue = async (bridgeUrl: string) => {
+	try {
+		const response = await fetch(bridgeUrl, { method: "DELETE" });
+		if (!response.ok) throw new Error(`Bridge responded ${response.status}`);
+		return true;
+	} catch (err) {
+		console.error("Failed to clear bridge queue:", err);
+		return false;
+	}
+};
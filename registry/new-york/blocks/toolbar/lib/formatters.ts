@@ -0,0 +1,486 @@
+import type {
+	AccessibilityContext,
+	AnnotationData,
+	BoxSides,
+	ComponentState,
+	FiberInfo,
+	FiberSource,
+	SerializedAnnotation,
+	SerializedFiberInfo,
+	SourceSnippet,
+	StyleContext,
+	TokenMatch,
+} from "../types";
+import {
+	DEFAULT_SERIALIZE_OPTIONS,
+	isRedacted,
+	REDACTED,
+	type SerializeOptions,
+	serializePropEntries,
+	serializeProps,
+	serializeValue,
+} from "./serialize";
+
+export interface FormatOptions {
+	serialize?: Partial<SerializeOptions>;
+}
+
+export type PromptTemplate = (
+	annotations: AnnotationData[],
+	options: FormatOptions,
+) => string;
+
+export interface PromptFormatter {
+	id: string;
+	label: string;
+	format: PromptTemplate;
+}
+
+// Helpers shared by the built-in formatters, exported for custom templates
+export const getFiberInfos = (annotation: AnnotationData): FiberInfo[] => {
+	if (Array.isArray(annotation.fiberInfo)) return annotation.fiberInfo;
+	return annotation.fiberInfo ? [annotation.fiberInfo] : [];
+};
+
+export const formatSource = (source: FiberSource) =>
+	`${source.fileName}:${source.lineNumber}:${source.columnNumber}`;
+
+export const formatComponentPath = (fiberInfo: FiberInfo) =>
+	[
+		...(fiberInfo.ancestors ?? []).map((ancestor) => ancestor.componentName),
+		fiberInfo.componentName,
+	].join(" > ");
+
+// Fenced code block with line numbers, the fiber's own line marked with ">"
+export const formatSnippet = (snippet: SourceSnippet) => {
+	const width = String(snippet.endLine).length;
+	const body = snippet.lines
+		.map((line, idx) => {
+			const lineNumber = snippet.startLine + idx;
+			const marker = lineNumber === snippet.targetLine ? ">" : " ";
+			return `${marker}${String(lineNumber).padStart(width)} | ${line}`;
+		})
+		.join("\n");
+	return `\`\`\`${snippet.language} ${snippet.fileName}\n${body}\n\`\`\``;
+};
+
+// CSS shorthand order, collapsed like `padding: 8 16`
+const formatSides = ([top, right, bottom, left]: BoxSides) => {
+	if (top === right && right === bottom && bottom === left) return `${top}`;
+	if (top === bottom && right === left) return `${top} ${right}`;
+	return `${top} ${right} ${bottom} ${left}`;
+};
+
+// One line per fact: classes, box model, parent layout, computed styles
+export const formatStyleLines = (style: StyleContext) => {
+	const { box } = style;
+	const lines = [
+		`box: ${box.width}×${box.height}, margin ${formatSides(box.margin)}, border ${formatSides(box.border)}, padding ${formatSides(box.padding)}`,
+	];
+	if (style.classNames.length > 0) {
+		lines.unshift(`classes: ${style.classNames.join(" ")}`);
+	}
+	if (style.parentLayout) lines.push(`parent layout: ${style.parentLayout}`);
+	for (const [property, value] of Object.entries(style.computed)) {
+		lines.push(`${property}: ${value}`);
+	}
+	return lines;
+};
+
+// "color: text-muted-foreground (--muted-foreground)", with off-theme
+// values called out so agents don't copy them
+export const formatTokenLines = (tokens: TokenMatch[]) =>
+	tokens.map((match) => {
+		if (match.exact && match.utility) {
+			const token = match.token ? ` (${match.token})` : "";
+			return `${match.property}: ${match.utility}${token}`;
+		}
+		const nearest = match.utility ? `, nearest ${match.utility}` : "";
+		return `${match.property}: ${match.value} is off-theme${nearest}`;
+	});
+
+export const formatAccessibilityLines = (a11y: AccessibilityContext) => {
+	const lines = [
+		`role: ${a11y.role ?? "none"}`,
+		`name: ${a11y.name ? JSON.stringify(a11y.name) : "(none)"}`,
+	];
+	if (a11y.description) {
+		lines.push(`description: ${JSON.stringify(a11y.description)}`);
+	}
+	const aria = Object.entries(a11y.aria).map(([key, val]) => `${key}="${val}"`);
+	if (aria.length > 0) lines.push(`aria: ${aria.join(" ")}`);
+	const tabIndex = a11y.tabIndex === null ? "" : ` (tabindex ${a11y.tabIndex})`;
+	lines.push(`focusable: ${a11y.focusable ? "yes" : "no"}${tabIndex}`);
+	if (a11y.labels.length > 0) {
+		const labels = a11y.labels.map((label) => JSON.stringify(label));
+		lines.push(`labels: ${labels.join(", ")}`);
+	}
+	if (a11y.contrast) {
+		const { ratio, required, foreground, background } = a11y.contrast;
+		lines.push(
+			`contrast: ${ratio}:1 (AA needs ${required}:1), ${foreground} on ${background}`,
+		);
+	}
+	for (const issue of a11y.issues) lines.push(`issue: ${issue}`);
+	return lines;
+};
+
+// One "hook 0 (state): …" line per hook, then one per consumed context
+export const formatStateLines = (
+	state: ComponentState,
+	serialize?: Partial<SerializeOptions>,
+) => {
+	const lines = state.hooks.map((hook) => {
+		const deps =
+			hook.deps === undefined
+				? ""
+				: `, deps ${hook.deps === null ? "none" : serializeValue(hook.deps, serialize)}`;
+		return `hook ${hook.index} (${hook.kind}): ${serializeValue(hook.value, serialize)}${deps}`;
+	});
+	for (const context of state.contexts) {
+		lines.push(
+			`context ${context.name}: ${serializeValue(context.value, serialize)}`,
+		);
+	}
+	return lines;
+};
+
+const TOKEN_INSTRUCTION =
+	"Use these theme tokens and scale steps instead of hard-coded values.";
+
+// Annotations bucketed by the route they were made on, in first-seen order
+export const groupByRoute = (annotations: AnnotationData[]) => {
+	const groups = new Map<string | null, AnnotationData[]>();
+	for (const annotation of annotations) {
+		const route = annotation.route ?? null;
+		groups.set(route, [...(groups.get(route) ?? []), annotation]);
+	}
+	return [...groups].map(([route, items]) => ({ route, annotations: items }));
+};
+
+// Number annotations continuously and wrap each route's block when the
+// selection spans more than one page
+const formatByRoute = (
+	annotations: AnnotationData[],
+	render: (annotation: AnnotationData, idx: number | undefined) => string,
+	wrap: (route: string | null, body: string) => string,
+) => {
+	let index = 0;
+	const renderAll = (items: AnnotationData[]) =>
+		items
+			.map((ann) => render(ann, annotations.length > 1 ? ++index : undefined))
+			.join("\n\n");
+
+	const groups = groupByRoute(annotations);
+	if (groups.length <= 1) return renderAll(annotations);
+	return groups
+		.map((group) => wrap(group.route, renderAll(group.annotations)))
+		.join("\n\n");
+};
+
+const fiberInfoToXml = (
+	fiberInfo: FiberInfo | undefined,
+	options: FormatOptions,
+) => {
+	const componentName = fiberInfo?.componentName || "unknown";
+	const source = fiberInfo?.source;
+	const props = fiberInfo?.props;
+
+	let contextInfo = `[Component: <${componentName}>]`;
+
+	if (fiberInfo?.ancestors && fiberInfo.ancestors.length > 0) {
+		contextInfo += `\n[Component Path: ${formatComponentPath(fiberInfo)}]`;
+	}
+
+	if (source) {
+		contextInfo += `\n[Location: ${formatSource(source)}]`;
+	} else if (fiberInfo?.domPath) {
+		contextInfo += `\n[DOM Path: ${fiberInfo.domPath}]`;
+	}
+
+	if (props && Object.keys(props).length > 0) {
+		contextInfo += `\n[Props: ${serializeProps(props, options.serialize)}]`;
+	}
+
+	if (fiberInfo?.state) {
+		contextInfo += `\n[State of <${fiberInfo.state.componentName}>:]\n${formatStateLines(fiberInfo.state, options.serialize).join("\n")}`;
+	}
+
+	if (fiberInfo?.snippet) {
+		contextInfo += `\n[Source:]\n${formatSnippet(fiberInfo.snippet)}`;
+	}
+
+	if (fiberInfo?.style) {
+		contextInfo += `\n[Styles:]\n${formatStyleLines(fiberInfo.style).join("\n")}`;
+	}
+
+	if (fiberInfo?.tokens && fiberInfo.tokens.length > 0) {
+		contextInfo += `\n[Design Tokens: ${TOKEN_INSTRUCTION}]\n${formatTokenLines(fiberInfo.tokens).join("\n")}`;
+	}
+
+	if (fiberInfo?.accessibility) {
+		contextInfo += `\n[Accessibility:]\n${formatAccessibilityLines(fiberInfo.accessibility).join("\n")}`;
+	}
+
+	return contextInfo;
+};
+
+const annotationToXml = (
+	annotation: AnnotationData,
+	idx: number | undefined,
+	options: FormatOptions,
+) => {
+	const fiberInfos = getFiberInfos(annotation);
+	const indexAttr = idx === undefined ? "" : ` index="${idx}"`;
+	const instruction = annotation.comment?.trim()
+		? `\n<instruction>\n${annotation.comment.trim()}\n</instruction>`
+		: "";
+
+	// Marquee selections list every component inside one area
+	if (fiberInfos.length > 1) {
+		const elements = fiberInfos
+			.map(
+				(info) =>
+					`<referenced_element>\n${fiberInfoToXml(info, options)}\n</referenced_element>`,
+			)
+			.join("\n");
+		return `<referenced_area${indexAttr} count="${fiberInfos.length}">\n${elements}${instruction}\n</referenced_area>`;
+	}
+
+	return `<referenced_element${indexAttr}>\n${fiberInfoToXml(fiberInfos[0], options)}${instruction}\n</referenced_element>`;
+};
+
+const fiberInfoToMarkdown = (
+	fiberInfo: FiberInfo,
+	heading: string,
+	options: FormatOptions,
+	instruction?: string | null,
+) => {
+	const lines = [`${heading} \`<${fiberInfo.componentName}>\``, ""];
+
+	if (fiberInfo.ancestors && fiberInfo.ancestors.length > 0) {
+		lines.push(`- **Path:** ${formatComponentPath(fiberInfo)}`);
+	}
+
+	if (fiberInfo.source) {
+		lines.push(`- **Location:** \`${formatSource(fiberInfo.source)}\``);
+	} else if (fiberInfo.domPath) {
+		lines.push(`- **DOM path:** \`${fiberInfo.domPath}\``);
+	}
+
+	if (instruction) {
+		lines.push("", instruction);
+	}
+
+	if (fiberInfo.snippet) {
+		lines.push("", formatSnippet(fiberInfo.snippet));
+	}
+
+	if (Object.keys(fiberInfo.props).length > 0) {
+		lines.push(
+			"",
+			"```props",
+			...serializePropEntries(fiberInfo.props, options.serialize),
+			"```",
+		);
+	}
+
+	if (fiberInfo.state) {
+		lines.push(
+			"",
+			`\`\`\`state ${fiberInfo.state.componentName}`,
+			...formatStateLines(fiberInfo.state, options.serialize),
+			"```",
+		);
+	}
+
+	if (fiberInfo.style) {
+		lines.push("", "```styles", ...formatStyleLines(fiberInfo.style), "```");
+	}
+
+	if (fiberInfo.tokens && fiberInfo.tokens.length > 0) {
+		lines.push(
+			"",
+			`**Design tokens.** ${TOKEN_INSTRUCTION}`,
+			"",
+			...formatTokenLines(fiberInfo.tokens).map((line) => `- ${line}`),
+		);
+	}
+
+	if (fiberInfo.accessibility) {
+		lines.push(
+			"",
+			"**Accessibility**",
+			"",
+			...formatAccessibilityLines(fiberInfo.accessibility).map(
+				(line) => `- ${line}`,
+			),
+		);
+	}
+
+	return lines.join("\n");
+};
+
+const annotationToMarkdown = (
+	annotation: AnnotationData,
+	idx: number | undefined,
+	options: FormatOptions,
+) => {
+	const fiberInfos = getFiberInfos(annotation);
+	const prefix = idx === undefined ? "" : `${idx}. `;
+	const instruction = annotation.comment?.trim()
+		? annotation.comment
+				.trim()
+				.split("\n")
+				.map((line) => `> ${line}`)
+				.join("\n")
+		: null;
+
+	if (fiberInfos.length > 1) {
+		return [
+			`## ${prefix}Area selection (${fiberInfos.length} components)`,
+			...(instruction ? ["", instruction] : []),
+			...fiberInfos.map(
+				(info) => `\n${fiberInfoToMarkdown(info, "###", options)}`,
+			),
+		].join("\n");
+	}
+
+	return fiberInfoToMarkdown(
+		fiberInfos[0] ?? { componentName: "unknown", props: {} },
+		`## ${prefix}`.trimEnd(),
+		options,
+		instruction,
+	);
+};
+
+const toJsonValue = (value: unknown, options: SerializeOptions) => {
+	// Keep JSON-native values as-is and describe everything else as a string
+	if (typeof value === "string") {
+		return value.length > options.maxStringLength
+			? `${value.slice(0, options.maxStringLength)}…`
+			: value;
+	}
+	if (value === null || ["number", "boolean"].includes(typeof value)) {
+		return value;
+	}
+	return serializeValue(value, options);
+};
+
+const stateToJson = (
+	state: ComponentState,
+	options: SerializeOptions,
+): ComponentState => ({
+	componentName: state.componentName,
+	hooks: state.hooks.map((hook) => ({
+		...hook,
+		value: toJsonValue(hook.value, options),
+		...(hook.deps && {
+			deps: hook.deps.map((dep) => toJsonValue(dep, options)),
+		}),
+	})),
+	contexts: state.contexts.map((context) => ({
+		name: context.name,
+		value: toJsonValue(context.value, options),
+	})),
+});
+
+const fiberInfoToJson = (
+	fiberInfo: FiberInfo,
+	options: FormatOptions,
+): SerializedFiberInfo => {
+	const resolved = { ...DEFAULT_SERIALIZE_OPTIONS, ...options.serialize };
+	const props = Object.fromEntries(
+		Object.entries(fiberInfo.props)
+			.slice(0, resolved.maxProps)
+			.map(([key, val]) => [
+				key,
+				isRedacted(key, val, resolved.redact)
+					? REDACTED
+					: toJsonValue(val, resolved),
+			]),
+	);
+
+	return {
+		componentName: fiberInfo.componentName,
+		source: fiberInfo.source ?? null,
+		ancestors: fiberInfo.ancestors ?? [],
+		props,
+		snippet: fiberInfo.snippet ?? null,
+		style: fiberInfo.style ?? null,
+		tokens: fiberInfo.tokens ?? null,
+		accessibility: fiberInfo.accessibility ?? null,
+		state: fiberInfo.state ? stateToJson(fiberInfo.state, resolved) : null,
+		domPath: fiberInfo.domPath ?? null,
+	};
+};
+
+const annotationToJson = (
+	annotation: AnnotationData,
+	options: FormatOptions,
+): SerializedAnnotation => {
+	const fiberInfos = getFiberInfos(annotation);
+
+	return {
+		id: annotation.id,
+		mode: annotation.mode ?? null,
+		comment: annotation.comment ?? null,
+		route: annotation.route ?? null,
+		rect: {
+			left: annotation.rect.left,
+			top: annotation.rect.top,
+			width: annotation.rect.width,
+			height: annotation.rect.height,
+		},
+		fiberInfo: fiberInfos.map((info) => fiberInfoToJson(info, options)),
+	};
+};
+
+export const xmlFormatter: PromptFormatter = {
+	id: "xml",
+	label: "XML",
+	format: (annotations, options) =>
+		formatByRoute(
+			annotations,
+			(ann, idx) => annotationToXml(ann, idx, options),
+			(route, body) =>
+				`<route path="${route ?? "unknown"}">\n${body}\n</route>`,
+		),
+};
+
+export const markdownFormatter: PromptFormatter = {
+	id: "markdown",
+	label: "MD",
+	format: (annotations, options) =>
+		formatByRoute(
+			annotations,
+			(ann, idx) => annotationToMarkdown(ann, idx, options),
+			(route, body) => `# Route \`${route ?? "unknown"}\`\n\n${body}`,
+		),
+};
+
+// Plain objects without DOM references, safe to stringify or send over HTTP
+export const annotationsToJson = (
+	annotations: AnnotationData[],
+	options: FormatOptions = {},
+): SerializedAnnotation[] =>
+	annotations.map((ann) => annotationToJson(ann, options));
+
+export const jsonFormatter: PromptFormatter = {
+	id: "json",
+	label: "JSON",
+	format: (annotations, options) =>
+		JSON.stringify(annotationsToJson(annotations, options), null, 2),
+};
+
+// Wrap a user-supplied template so it can sit next to the built-ins
+export const createTemplateFormatter = (
+	template: PromptTemplate,
+	{ id = "custom", label = "Custom" }: { id?: string; label?: string } = {},
+): PromptFormatter => ({ id, label, format: template });
+
+export const builtInFormatters: PromptFormatter[] = [
+	xmlFormatter,
+	markdownFormatter,
+	jsonFormatter,
+];
@@ -0,0 +1,97 @@
+// Key combos are written like "alt+shift+s", "Escape" or "[". Use an array
+// to bind several combos to one action, or an empty array to disable it.
+export type Hotkey = string | string[];
+
+export interface HotkeyMap {
+	// Toolbar modes
+	singleSelect: Hotkey;
+	multiComment: Hotkey;
+	drawSelect: Hotkey;
+	// Close the comment popover, then leave (and pause) the mode
+	cancel: Hotkey;
+	// Move the hover highlight through the DOM tree
+	parent: Hotkey;
+	child: Hotkey;
+	nextSibling: Hotkey;
+	previousSibling: Hotkey;
+	// Annotate the highlighted node
+	annotate: Hotkey;
+}
+
+export const DEFAULT_HOTKEYS: HotkeyMap = {
+	singleSelect: "alt+shift+s",
+	multiComment: "alt+shift+m",
+	drawSelect: "alt+shift+d",
+	cancel: "Escape",
+	parent: ["ArrowUp", "["],
+	child: ["ArrowDown", "]"],
+	nextSibling: "ArrowRight",
+	previousSibling: "ArrowLeft",
+	annotate: "Enter",
+};
+
+const MODIFIERS = ["alt", "shift", "ctrl", "meta"] as const;
+
+const toList = (hotkey: Hotkey) => (Array.isArray(hotkey) ? hotkey : [hotkey]);
+
+const matchesCombo = (event: KeyboardEvent, combo: string) => {
+	const parts = combo.split("+").map((part) => part.trim().toLowerCase());
+	const key = parts.pop();
+	if (!key) return false;
+
+	const isMac =
+		typeof navigator !== "undefined" && /mac/i.test(navigator.platform);
+	const wanted = new Set(
+		parts.map((part) => (part === "mod" ? (isMac ? "meta" : "ctrl") : part)),
+	);
+
+	for (const modifier of MODIFIERS) {
+		if (wanted.has(modifier) !== event[`${modifier}Key`]) {
+			// Shift is implied by symbols like "[" or "?" on some layouts
+			if (modifier === "shift" && !wanted.has("shift") && key.length === 1) {
+				continue;
+			}
+			return false;
+		}
+	}
+
+	// Alt changes `event.key` on macOS (alt+s is "ß"), so letters and digits
+	// are also matched on the physical key
+	if (event.key.toLowerCase() === key) return true;
+	if (/^[a-z]$/.test(key)) return event.code === `Key${key.toUpperCase()}`;
+	if (/^[0-9]$/.test(key)) return event.code === `Digit${key}`;
+	return false;
+};
+
+export const matchesHotkey = (event: KeyboardEvent, hotkey: Hotkey) =>
+	toList(hotkey).some((combo) => matchesCombo(event, combo));
+
+// Human readable label for tooltips, e.g. "Alt+Shift+S"
+export const formatHotkey = (hotkey: Hotkey) => {
+	const [first] = toList(hotkey);
+	if (!first) return null;
+	return first
+		.split("+")
+		.map((part) =>
+			part.length === 1
+				? part.toUpperCase()
+				: part.charAt(0).toUpperCase() + part.slice(1),
+		)
+		.join("+");
+};
+
+// Typing in inputs should never trigger toolbar shortcuts
+export const isEditableTarget = (target: EventTarget | null) => {
+	// Events from a shadow root arrive retargeted to its host, so look at
+	// what has focus inside it
+	let element = target;
+	while (element instanceof Element && element.shadowRoot?.activeElement) {
+		element = element.shadowRoot.activeElement;
+	}
+
+	if (!(element instanceof HTMLElement)) return false;
+	return (
+		element.isContentEditable ||
+		["INPUT", "TEXTAREA", "SELECT"].includes(element.tagName)
+	);
+};
@@ -0,0 +1,129 @@
+import { getSourceMap } from "bippy/dist/source.js";
+
+import type { FiberSource } from "../types";
+
+export interface PathOptions {
+	// Absolute path of the project on disk. Matching absolute file names are
+	// made relative to it.
+	projectRoot?: string;
+}
+
+type SourceMapConsumer = NonNullable<Awaited<ReturnType<typeof getSourceMap>>>;
+
+// Bundler and protocol prefixes seen in fiber source locations
+const PREFIX_PATTERNS = [
+	/^webpack-internal:\/\/\//,
+	/^webpack:\/\/[^/]*\//,
+	/^turbopack:\/\/\/?(?:\[project\]\/)?/,
+	/^\[project\]\//,
+	/^file:\/\//,
+	/^\([^)]*\)\//, // webpack layers such as "(app-pages-browser)/"
+	/^\.\//,
+];
+
+// Compiled output served by the dev server, resolvable through source maps
+const CHUNK_PATTERN = /(?:^|\/)_next\/static\/|^https?:\/\/[^/]+\/.*\.m?js$/;
+
+const sourceMapCache = new Map<string, Promise<SourceMapConsumer | null>>();
+
+export const stripBundlerPrefix = (fileName: string) => {
+	let result = fileName.replace(/\\/g, "/").replace(/[?#].*$/, "");
+	let previous: string;
+	do {
+		previous = result;
+		for (const pattern of PREFIX_PATTERNS) {
+			result = result.replace(pattern, "");
+		}
+	} while (result !== previous);
+	return result;
+};
+
+export const isLibraryPath = (fileName: string) =>
+	/(?:^|\/)node_modules\//.test(fileName);
+
+export const isChunkPath = (fileName: string) => CHUNK_PATTERN.test(fileName);
+
+export const toProjectPath = (fileName: string, projectRoot?: string) => {
+	const stripped = stripBundlerPrefix(fileName);
+	if (!projectRoot) return stripped;
+
+	const root = projectRoot.replace(/\\/g, "/").replace(/\/+$/, "");
+	return stripped.startsWith(`${root}/`)
+		? stripped.slice(root.length + 1)
+		: stripped;
+};
+
+const loadSourceMap = (url: string) => {
+	let pending = sourceMapCache.get(url);
+	if (!pending) {
+		pending = fetch(url)
+			.then((response) => (response.ok ? response.text() : null))
+			.then((content) => (content ? getSourceMap(url, content) : null))
+			.catch(() => null);
+		sourceMapCache.set(url, pending);
+	}
+	return pending;
+};
+
+// Map a location inside a compiled chunk back to the original file
+const resolveChunkSource = async (
+	source: FiberSource,
+): Promise<FiberSource | null> => {
+	if (typeof window === "undefined") return null;
+
+	const url = new URL(source.fileName, window.location.origin).href;
+	const consumer = await loadSourceMap(url);
+	if (!consumer) return null;
+
+	const original = consumer.originalPositionFor({
+		line: source.lineNumber,
+		column: source.columnNumber,
+	});
+	if (!original?.source || original.line == null) return null;
+
+	return {
+		fileName: original.source,
+		lineNumber: original.line,
+		columnNumber: original.column ?? 0,
+	};
+};
+
+// "file:line:col" written by the ai-source compiler plugin
+const STAMPED_SOURCE_PATTERN = /^(.+):(\d+):(\d+)$/;
+
+// Location stamped onto the element at build time, already repo-relative
+export const getStampedSource = (element: Element): FiberSource | null => {
+	const match = element
+		.getAttribute("data-ai-source")
+		?.match(STAMPED_SOURCE_PATTERN);
+	if (!match) return null;
+	return {
+		fileName: match[1],
+		lineNumber: Number(match[2]),
+		columnNumber: Number(match[3]),
+	};
+};
+
+// Turn whatever the bundler reported into a repo-relative path. Locations
+// that still point into compiled chunks after source-mapping are dropped.
+export const normalizeSource = async (
+	source: FiberSource | null | undefined,
+	{ projectRoot }: PathOptions = {},
+): Promise<FiberSource | null> => {
+	if (!source?.fileName) return null;
+
+	let resolved: FiberSource = source;
+	if (isChunkPath(stripBundlerPrefix(source.fileName))) {
+		const mapped = await resolveChunkSource({
+			...source,
+			fileName: stripBundlerPrefix(source.fileName),
+		});
+		if (!mapped) return null;
+		resolved = mapped;
+	}
+
+	return {
+		...resolved,
+		fileName: toProjectPath(resolved.fileName, projectRoot),
+	};
+};
@@ -0,0 +1,134 @@
+import { z } from "zod";
+
+// Runtime schema for annotation batches sent by the toolbar (see
+// `postToBridge`), mirroring `SerializedAnnotation` in `../types`
+const sourceSchema = z.object({
+	fileName: z.string(),
+	lineNumber: z.number(),
+	columnNumber: z.number(),
+});
+
+const sidesSchema = z.tuple([z.number(), z.number(), z.number(), z.number()]);
+
+const styleSchema = z.object({
+	classNames: z.array(z.string()),
+	computed: z.record(z.string()),
+	box: z.object({
+		width: z.number(),
+		height: z.number(),
+		margin: sidesSchema,
+		border: sidesSchema,
+		padding: sidesSchema,
+	}),
+	parentLayout: z.string().nullable(),
+});
+
+const tokenSchema = z.object({
+	property: z.string(),
+	value: z.string(),
+	token: z.string().nullable(),
+	utility: z.string().nullable(),
+	exact: z.boolean(),
+});
+
+const accessibilitySchema = z.object({
+	role: z.string().nullable(),
+	name: z.string(),
+	description: z.string().nullable(),
+	aria: z.record(z.string()),
+	focusable: z.boolean(),
+	tabIndex: z.number().nullable(),
+	labels: z.array(z.string()),
+	contrast: z
+		.object({
+			ratio: z.number(),
+			required: z.number(),
+			foreground: z.string(),
+			background: z.string(),
+		})
+		.nullable(),
+	issues: z.array(z.string()),
+});
+
+// Hook and context values arrive already serialized by `toJsonValue`
+const stateValueSchema = z.union([
+	z.string(),
+	z.number(),
+	z.boolean(),
+	z.null(),
+]);
+
+const stateSchema = z.object({
+	componentName: z.string(),
+	hooks: z.array(
+		z.object({
+			index: z.number(),
+			kind: z.enum([
+				"state",
+				"reducer",
+				"ref",
+				"memo",
+				"callback",
+				"store",
+				"other",
+			]),
+			value: stateValueSchema,
+			deps: z.array(stateValueSchema).nullable().optional(),
+		}),
+	),
+	contexts: z.array(z.object({ name: z.string(), value: stateValueSchema })),
+});
+
+export const serializedAnnotationSchema = z.object({
+	id: z.number(),
+	mode: z.string().nullable(),
+	comment: z.string().nullable(),
+	route: z.string().nullable().optional(),
+	rect: z.object({
+		left: z.number(),
+		top: z.number(),
+		width: z.number(),
+		height: z.number(),
+	}),
+	fiberInfo: z.array(
+		z.object({
+			componentName: z.string(),
+			source: sourceSchema.nullable(),
+			ancestors: z.array(
+				z.object({
+					componentName: z.string(),
+					source: sourceSchema.nullable().optional(),
+				}),
+			),
+			props: z.record(z.unknown()),
+			snippet: z
+				.object({
+					fileName: z.string(),
+					language: z.string(),
+					startLine: z.number(),
+					endLine: z.number(),
+					targetLine: z.number(),
+					lines: z.array(z.string()),
+				})
+				.nullable()
+				.optional(),
+			style: styleSchema.nullable().optional(),
+			tokens: z.array(tokenSchema).nullable().optional(),
+			accessibility: accessibilitySchema.nullable().optional(),
+			state: stateSchema.nullable().optional(),
+			domPath: z.string().nullable().optional(),
+		}),
+	),
+});
+
+export const screenshotSchema = z.object({
+	annotationId: z.number(),
+	dataUrl: z.string().regex(/^data:image\/png;base64,/),
+});
+
+export const bridgePayloadSchema = z.object({
+	url: z.string(),
+	prompt: z.string(),
+	annotations: z.array(serializedAnnotationSchema).min(1),
+	screenshots: z.array(screenshotSchema).optional(),
+});
@@ -0,0 +1,194 @@
+import type { SelectionRect } from "../types";
+
+// Rasterize part of the viewport to PNG in the browser. The page is cloned
+// with inlined computed styles into an SVG <foreignObject>, drawn onto a
+// canvas and cropped. Web fonts, cross-origin images and pseudo-elements
+// are not carried over, so the result is close to, not identical to, what
+// is on screen.
+
+export interface ScreenshotOptions {
+	// Pixel density of the PNG, defaults to the device pixel ratio
+	scale?: number;
+	// Extra space around the region in CSS pixels
+	padding?: number;
+}
+
+// The toolbar's shadow host, which holds all of its UI
+const EXCLUDED_SELECTOR = ".ai-toolbar-container";
+
+const XHTML_NAMESPACE = "http://www.w3.org/1999/xhtml";
+
+const inlineStyles = (source: Element, target: HTMLElement | SVGElement) => {
+	const computed = getComputedStyle(source);
+	for (const property of computed) {
+		target.style.setProperty(
+			property,
+			computed.getPropertyValue(property),
+			computed.getPropertyPriority(property),
+		);
+	}
+	// Transitions would otherwise replay from the initial values
+	target.style.setProperty("transition", "none");
+	target.style.setProperty("animation", "none");
+};
+
+// Same-origin images and canvases are embedded as data URLs, since the SVG
+// image can't load external resources
+const toDataUrl = (source: HTMLImageElement | HTMLCanvasElement) => {
+	try {
+		if (source instanceof HTMLCanvasElement) return source.toDataURL();
+		if (!source.complete || source.naturalWidth === 0) return null;
+		const canvas = document.createElement("canvas");
+		canvas.width = source.naturalWidth;
+		canvas.height = source.naturalHeight;
+		canvas.getContext("2d")?.drawImage(source, 0, 0);
+		return canvas.toDataURL();
+	} catch {
+		// Tainted by a cross-origin image
+		return null;
+	}
+};
+
+const cloneNode = (source: Node): Node | null => {
+	if (source.nodeType === Node.TEXT_NODE) return source.cloneNode();
+	if (!(source instanceof Element)) return null;
+	if (source.matches(EXCLUDED_SELECTOR)) return null;
+	if (["SCRIPT", "NOSCRIPT", "TEMPLATE", "IFRAME"].includes(source.tagName)) {
+		return null;
+	}
+
+	let clone: Element;
+	if (source instanceof HTMLCanvasElement) {
+		const img = document.createElement("img");
+		const dataUrl = toDataUrl(source);
+		if (dataUrl) img.src = dataUrl;
+		clone = img;
+	} else {
+		clone = source.cloneNode(false) as Element;
+	}
+
+	if (source instanceof HTMLImageElement) {
+		const dataUrl = toDataUrl(source);
+		if (dataUrl) (clone as HTMLImageElement).src = dataUrl;
+		clone.removeAttribute("srcset");
+	}
+
+	// Form state lives in properties, not attributes
+	if (source instanceof HTMLInputElement) {
+		clone.setAttribute("value", source.value);
+		if (source.checked) clone.setAttribute("checked", "");
+	}
+	if (source instanceof HTMLTextAreaElement) clone.textContent = source.value;
+
+	if (clone instanceof HTMLElement || clone instanceof SVGElement) {
+		inlineStyles(source, clone);
+	}
+
+	if (!(source instanceof HTMLTextAreaElement)) {
+		for (const child of source.childNodes) {
+			const childClone = cloneNode(child);
+			if (childClone) clone.appendChild(childClone);
+		}
+	}
+
+	// Scroll offsets are lost in the clone, shift the children instead
+	if (source.scrollTop || source.scrollLeft) {
+		for (const child of clone.children) {
+			if (child instanceof HTMLElement || child instanceof SVGElement) {
+				child.style.setProperty(
+					"translate",
+					`${-source.scrollLeft}px ${-source.scrollTop}px`,
+				);
+			}
+		}
+	}
+
+	return clone;
+};
+
+const loadImage = (src: string) =>
+	new Promise<HTMLImageElement>((resolve, reject) => {
+		const img = new Image();
+		img.onload = () => resolve(img);
+		img.onerror = () => reject(new Error("Failed to render the page snapshot"));
+		img.src = src;
+	});
+
+// Capture a viewport rectangle as a PNG blob, or null when the browser
+// refuses to rasterize the snapshot
+export const captureRegion = async (
+	rect: SelectionRect,
+	{ scale = window.devicePixelRatio || 1, padding = 8 }: ScreenshotOptions = {},
+): Promise<Blob | null> => {
+	const viewportWidth = document.documentElement.clientWidth;
+	const viewportHeight = document.documentElement.clientHeight;
+
+	const left = Math.max(0, rect.left - padding);
+	const top = Math.max(0, rect.top - padding);
+	const width = Math.min(viewportWidth, rect.left + rect.width + padding) - left;
+	const height =
+		Math.min(viewportHeight, rect.top + rect.height + padding) - top;
+	if (width <= 0 || height <= 0) return null;
+
+	try {
+		const body = cloneNode(document.body) as HTMLElement | null;
+		if (!body) return null;
+
+		// Lay the page out as it currently sits in the viewport
+		const viewport = document.createElementNS(XHTML_NAMESPACE, "div");
+		viewport.setAttribute(
+			"style",
+			`width:${viewportWidth}px;height:${viewportHeight}px;overflow:hidden;background:${
+				getComputedStyle(document.body).backgroundColor
+			}`,
+		);
+		body.style.setProperty(
+			"translate",
+			`${-window.scrollX}px ${-window.scrollY}px`,
+		);
+		body.style.setProperty("margin", getComputedStyle(document.body).margin);
+		viewport.appendChild(body);
+
+		const markup = new XMLSerializer().serializeToString(viewport);
+		const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="${viewportWidth * scale}" height="${viewportHeight * scale}" viewBox="0 0 ${viewportWidth} ${viewportHeight}"><foreignObject width="100%" height="100%">${markup}</foreignObject></svg>`;
+		const image = await loadImage(
+			`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`,
+		);
+
+		const canvas = document.createElement("canvas");
+		canvas.width = Math.round(width * scale);
+		canvas.height = Math.round(height * scale);
+		const context = canvas.getContext("2d");
+		if (!context) return null;
+
+		context.drawImage(
+			image,
+			left * scale,
+			top * scale,
+			width * scale,
+			height * scale,
+			0,
+			0,
+			canvas.width,
+			canvas.height,
+		);
+
+		return await new Promise<Blob | null>((resolve) =>
+			canvas.toBlob(resolve, "image/png"),
+		);
+	} catch (err) {
+		console.warn("Failed to capture screenshot:", err);
+		return null;
+	}
+};
+
+export const blobToDataUrl = (blob: Blob) =>
+	new Promise<string>((resolve, reject) => {
+		const reader = new FileReader();
+		reader.onload = () => resolve(reader.result as string);
+		reader.onerror = () => reject(reader.error);
+		reader.readAsDataURL(blob);
+	});
+
+export const dataUrlToBlob = async (dataUrl: string) =>
+	(await fetch(dataUrl)).blob();
@@ -0,0 +1,249 @@
+import { getDisplayName } from "bippy";
+import { isValidElement, type ReactElement } from "react";
+
+// A key name, a pattern over key names, or a predicate
+export type RedactionRule =
+	string | RegExp | ((key: string, value: unknown) => boolean);
+
+export interface SerializeOptions {
+	// Nesting level after which objects collapse to `{…}`
+	maxDepth: number;
+	// Strings longer than this are cut with an ellipsis
+	maxStringLength: number;
+	// Entries shown per object, array, Map or Set
+	maxEntries: number;
+	// Top-level props shown per component
+	maxProps: number;
+	// Values under matching keys are replaced at any depth
+	redact: RedactionRule[];
+}
+
+export const REDACTED = "[redacted]";
+
+// A value serialized earlier, e.g. restored from a saved session. It is
+// rendered as its stored text instead of being described a second time.
+export class SerializedValue {
+	constructor(readonly text: string) {}
+}
+
+// Key names that usually hold credentials
+export const DEFAULT_REDACTION_RULES: RedactionRule[] = [
+	/passw(or)?d/i,
+	/secret/i,
+	/token$/i,
+	/api[-_]?key/i,
+	/^authorization$/i,
+	/^cookie$/i,
+];
+
+export const DEFAULT_SERIALIZE_OPTIONS: SerializeOptions = {
+	maxDepth: 2,
+	maxStringLength: 80,
+	maxEntries: 5,
+	maxProps: 5,
+	redact: DEFAULT_REDACTION_RULES,
+};
+
+export const isRedacted = (
+	key: string,
+	value: unknown,
+	rules: RedactionRule[],
+) =>
+	rules.some((rule) => {
+		if (typeof rule === "string") return rule === key;
+		if (rule instanceof RegExp) return rule.test(key);
+		return rule(key, value);
+	});
+
+const truncate = (text: string, max: number) =>
+	text.length > max ? `${text.slice(0, max)}…` : text;
+
+const moreSuffix = (total: number, shown: number) =>
+	total > shown ? `, …${total - shown} more` : "";
+
+const getConstructorName = (value: object): string | null => {
+	const proto = Object.getPrototypeOf(value);
+	if (!proto || proto === Object.prototype) return null;
+	return proto.constructor?.name || null;
+};
+
+const serializeElement = (
+	element: ReactElement,
+	depth: number,
+	options: SerializeOptions,
+	seen: WeakSet<object>,
+): string => {
+	const name =
+		typeof element.type === "string"
+			? element.type
+			: getDisplayName(element.type) || "Anonymous";
+	const { children, ...props } = (element.props ?? {}) as Record<
+		string,
+		unknown
+	>;
+
+	const keys = Object.keys(props);
+	let attributes = "";
+
+	if (depth >= options.maxDepth) {
+		attributes = keys.length > 0 ? " …" : "";
+	} else {
+		attributes = keys
+			.slice(0, options.maxEntries)
+			.map((key) => {
+				const val = props[key];
+				if (isRedacted(key, val, options.redact)) {
+					return ` ${key}="${REDACTED}"`;
+				}
+				return typeof val === "string"
+					? ` ${key}=${JSON.stringify(truncate(val, options.maxStringLength))}`
+					: ` ${key}={${serialize(val, depth + 1, options, seen)}}`;
+			})
+			.join("");
+		if (keys.length > options.maxEntries) attributes += " …";
+	}
+
+	if (children === undefined || children === null) {
+		return `<${name}${attributes} />`;
+	}
+	return `<${name}${attributes}>…</${name}>`;
+};
+
+const serialize = (
+	value: unknown,
+	depth: number,
+	options: SerializeOptions,
+	seen: WeakSet<object>,
+): string => {
+	switch (typeof value) {
+		case "string":
+			return JSON.stringify(truncate(value, options.maxStringLength));
+		case "number":
+		case "boolean":
+		case "undefined":
+			return String(value);
+		case "bigint":
+			return `${value}n`;
+		case "symbol":
+			return value.toString();
+		case "function":
+			return `ƒ ${value.name || "anonymous"}`;
+	}
+
+	if (value === null) return "null";
+	if (value instanceof SerializedValue) return value.text;
+
+	const obj = value as object;
+
+	if (isValidElement(obj)) {
+		return serializeElement(obj, depth, options, seen);
+	}
+
+	if (obj instanceof Date) {
+		return Number.isNaN(obj.getTime())
+			? "Date(Invalid)"
+			: `Date(${obj.toISOString()})`;
+	}
+
+	if (obj instanceof RegExp) return obj.toString();
+
+	if (obj instanceof Error) {
+		return `${obj.name}(${JSON.stringify(truncate(obj.message, options.maxStringLength))})`;
+	}
+
+	if (typeof Element !== "undefined" && obj instanceof Element) {
+		return `[Element <${obj.tagName.toLowerCase()}>]`;
+	}
+
+	if (seen.has(obj)) return "[Circular]";
+
+	const collapsed = depth >= options.maxDepth;
+	seen.add(obj);
+
+	try {
+		if (Array.isArray(obj)) {
+			if (collapsed) return obj.length > 0 ? `[…${obj.length}]` : "[]";
+			const items = obj
+				.slice(0, options.maxEntries)
+				.map((item) => serialize(item, depth + 1, options, seen));
+			return `[${items.join(", ")}${moreSuffix(obj.length, items.length)}]`;
+		}
+
+		if (obj instanceof Map) {
+			if (collapsed) return `Map(${obj.size}) {…}`;
+			const entries = Array.from(obj.entries())
+				.slice(0, options.maxEntries)
+				.map(
+					([key, val]) =>
+						`${serialize(key, depth + 1, options, seen)} => ${serialize(val, depth + 1, options, seen)}`,
+				);
+			return `Map(${obj.size}) {${entries.join(", ")}${moreSuffix(obj.size, entries.length)}}`;
+		}
+
+		if (obj instanceof Set) {
+			if (collapsed) return `Set(${obj.size}) {…}`;
+			const items = Array.from(obj)
+				.slice(0, options.maxEntries)
+				.map((item) => serialize(item, depth + 1, options, seen));
+			return `Set(${obj.size}) {${items.join(", ")}${moreSuffix(obj.size, items.length)}}`;
+		}
+
+		const className = getConstructorName(obj);
+		const prefix = className ? `${className} ` : "";
+		const keys = Object.keys(obj);
+
+		if (keys.length === 0) return `${prefix}{}`;
+		if (collapsed) return `${prefix}{…}`;
+
+		const entries = keys.slice(0, options.maxEntries).map((key) => {
+			const val = (obj as Record<string, unknown>)[key];
+			return isRedacted(key, val, options.redact)
+				? `${key}: ${REDACTED}`
+				: `${key}: ${serialize(val, depth + 1, options, seen)}`;
+		});
+		return `${prefix}{ ${entries.join(", ")}${moreSuffix(keys.length, entries.length)} }`;
+	} catch {
+		// Getters on exotic objects can throw
+		return `${getConstructorName(obj) ?? "Object"} {?}`;
+	} finally {
+		seen.delete(obj);
+	}
+};
+
+// Render any runtime value as a short, prompt-friendly string
+export const serializeValue = (
+	value: unknown,
+	options: Partial<SerializeOptions> = {},
+): string =>
+	serialize(
+		value,
+		0,
+		{ ...DEFAULT_SERIALIZE_OPTIONS, ...options },
+		new WeakSet(),
+	);
+
+// Render each prop as a `key=value` string, limited to `maxProps`.
+// A trailing "…" entry marks that props were left out.
+export const serializePropEntries = (
+	props: Record<string, unknown>,
+	options: Partial<SerializeOptions> = {},
+): string[] => {
+	const resolved = { ...DEFAULT_SERIALIZE_OPTIONS, ...options };
+	const entries = Object.entries(props);
+
+	const list = entries
+		.slice(0, resolved.maxProps)
+		.map(([key, val]) =>
+			isRedacted(key, val, resolved.redact)
+				? `${key}=${REDACTED}`
+				: `${key}=${serialize(val, 1, resolved, new WeakSet([props]))}`,
+		);
+
+	return entries.length > resolved.maxProps ? [...list, "…"] : list;
+};
+
+// Render a props object as `key=value` pairs, limited to `maxProps`
+export const serializeProps = (
+	props: Record<string, unknown>,
+	options: Partial<SerializeOptions> = {},
+): string => serializePropEntries(props, options).join(", ");
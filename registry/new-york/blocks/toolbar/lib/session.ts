@@ -0,0 +1,359 @@
+import {
+	type Fiber,
+	getDisplayName,
+	getFiberFromHostInstance,
+	getLatestFiber,
+	isCompositeFiber,
+} from "bippy";
+
+import type {
+	AnnotationData,
+	ComponentState,
+	ElementLocator,
+	FiberInfo,
+	SerializedAnnotation,
+	SerializedFiberInfo,
+} from "../types";
+import {
+	annotationsToJson,
+	type FormatOptions,
+	getFiberInfos,
+} from "./formatters";
+import { REDACTED, SerializedValue } from "./serialize";
+
+// Multi-comment selections saved in localStorage so a reload, Fast Refresh
+// or client navigation doesn't lose them
+
+export const DEFAULT_SESSION_KEY = "ai-toolbar:session";
+
+interface StoredAnnotation extends SerializedAnnotation {
+	locators: ElementLocator[];
+}
+
+interface StoredSession {
+	version: 2;
+	annotations: StoredAnnotation[];
+}
+
+// Props, hook and context values the JSON form had to describe as a
+// string (functions, objects, redacted keys) are stored in this wrapper, so
+// they come back as SerializedValue rather than as a string to quote
+interface StoredDescription {
+	serialized: string;
+}
+
+// Stands in for the props cut by `maxProps`, so restored annotations still
+// end their props with "…"
+const OMITTED_PROPS_KEY = "…";
+
+const toStoredValue = (raw: unknown, json: unknown) =>
+	typeof json === "string" &&
+	(typeof raw !== "string" || (json === REDACTED && raw !== REDACTED))
+		? ({ serialized: json } satisfies StoredDescription)
+		: json;
+
+const fromStoredValue = (value: unknown) =>
+	typeof value === "object" &&
+	value !== null &&
+	typeof (value as StoredDescription).serialized === "string"
+		? new SerializedValue((value as StoredDescription).serialized)
+		: value;
+
+const mapState = (
+	state: ComponentState,
+	raw: ComponentState | null | undefined,
+	map: (value: unknown, raw: unknown) => unknown,
+): ComponentState => ({
+	...state,
+	hooks: state.hooks.map((hook, idx) => ({
+		...hook,
+		value: map(hook.value, raw?.hooks[idx]?.value),
+		...(hook.deps && {
+			deps: hook.deps.map((dep, depIdx) =>
+				map(dep, raw?.hooks[idx]?.deps?.[depIdx]),
+			),
+		}),
+	})),
+	contexts: state.contexts.map((context, idx) => ({
+		...context,
+		value: map(context.value, raw?.contexts[idx]?.value),
+	})),
+});
+
+const toStoredFiberInfo = (
+	info: SerializedFiberInfo,
+	raw: FiberInfo | undefined,
+): SerializedFiberInfo => {
+	const rawProps = raw?.props ?? {};
+	const props = Object.fromEntries(
+		Object.entries(info.props).map(([key, value]) => [
+			key,
+			toStoredValue(rawProps[key], value),
+		]),
+	);
+	if (Object.keys(rawProps).length > Object.keys(props).length) {
+		props[OMITTED_PROPS_KEY] = { serialized: "…" };
+	}
+
+	return {
+		...info,
+		props,
+		state: info.state
+			? mapState(info.state, raw?.state, (value, rawValue) =>
+					toStoredValue(rawValue, value),
+				)
+			: null,
+	};
+};
+
+const fromStoredFiberInfo = (info: SerializedFiberInfo): FiberInfo => ({
+	...info,
+	props: Object.fromEntries(
+		Object.entries(info.props).map(([key, value]) => [
+			key,
+			fromStoredValue(value),
+		]),
+	),
+	state: info.state
+		? mapState(info.state, null, (value) => fromStoredValue(value))
+		: null,
+});
+
+export const getAnnotationElements = (annotation: AnnotationData) =>
+	annotation.elements ?? (annotation.element ? [annotation.element] : []);
+
+// Selector from the nearest element with an id, falling back to
+// nth-of-type steps from <body>
+export const getCssPath = (element: Element) => {
+	const steps: string[] = [];
+	let current: Element | null = element;
+
+	while (current && current !== document.body) {
+		if (current.id) {
+			steps.unshift(`#${CSS.escape(current.id)}`);
+			break;
+		}
+
+		const tagName = current.tagName.toLowerCase();
+		const siblings = current.parentElement
+			? [...current.parentElement.children].filter(
+					(sibling) => sibling.tagName === current?.tagName,
+				)
+			: [];
+		steps.unshift(
+			siblings.length > 1
+				? `${tagName}:nth-of-type(${siblings.indexOf(current) + 1})`
+				: tagName,
+		);
+		current = current.parentElement;
+	}
+
+	if (current === document.body) steps.unshift("body");
+	return steps.join(" > ");
+};
+
+const getComponentPath = (fiber: Fiber | null) => {
+	const names: string[] = [];
+	let current = fiber;
+	while (current) {
+		if (isCompositeFiber(current)) {
+			const name = getDisplayName(current.type);
+			if (name) names.unshift(name);
+		}
+		current = current.return;
+	}
+	return names.join(" > ");
+};
+
+// Keys usually sit on list items a few levels above the host node
+const getNearestKey = (fiber: Fiber | null) => {
+	let current = fiber;
+	while (current) {
+		if (current.key !== null && current.key !== undefined) {
+			return String(current.key);
+		}
+		current = current.return;
+	}
+	return null;
+};
+
+export const getElementLocator = (element: Element): ElementLocator => {
+	const fiber = getFiberFromHostInstance(element);
+	const latestFiber = fiber ? getLatestFiber(fiber) : null;
+	return {
+		cssPath: getCssPath(element),
+		componentPath: getComponentPath(latestFiber),
+		key: getNearestKey(latestFiber),
+	};
+};
+
+const matchesLocator = (element: Element, locator: ElementLocator) => {
+	const current = getElementLocator(element);
+	return (
+		current.componentPath === locator.componentPath &&
+		current.key === locator.key
+	);
+};
+
+// Re-find an element on the current page. The CSS path is tried first, then
+// any element of the same tag rendered by the same components with the
+// same key.
+export const findElement = (locator: ElementLocator): Element | null => {
+	try {
+		const byPath = document.querySelector(locator.cssPath);
+		if (byPath && matchesLocator(byPath, locator)) return byPath;
+	} catch {
+		// Invalid selector from an older session
+	}
+
+	const tagName = locator.cssPath.split(" > ").pop()?.split(/[:#]/)[0];
+	if (!tagName) return null;
+
+	for (const candidate of document.body.querySelectorAll(tagName)) {
+		if (matchesLocator(candidate, locator)) return candidate;
+	}
+	return null;
+};
+
+// Attach the current route and element locators to a new annotation
+export const withLocation = (annotation: AnnotationData): AnnotationData => ({
+	...annotation,
+	route: annotation.route ?? window.location.pathname,
+	locators: getAnnotationElements(annotation).map(getElementLocator),
+});
+
+// Point annotations made on the current route back at their live elements.
+// Annotations from other routes, or whose elements are gone, keep only
+// their stored data.
+export const reattachAnnotations = (
+	annotations: AnnotationData[],
+	route: string,
+): AnnotationData[] =>
+	annotations.map((annotation) => {
+		if (annotation.route !== route || !annotation.locators?.length) {
+			return { ...annotation, element: undefined, elements: undefined };
+		}
+
+		const found = annotation.locators.map(findElement);
+		if (found.some((element) => !element)) {
+			return { ...annotation, element: undefined, elements: undefined };
+		}
+
+		const elements = found as Element[];
+		return {
+			...annotation,
+			element: elements[0],
+			elements: elements.length > 1 ? elements : undefined,
+			rect:
+				elements.length === 1
+					? elements[0].getBoundingClientRect()
+					: annotation.rect,
+		};
+	});
+
+export const saveSession = (
+	annotations: AnnotationData[],
+	key = DEFAULT_SESSION_KEY,
+	options: FormatOptions = {},
+) => {
+	try {
+		if (annotations.length === 0) {
+			localStorage.removeItem(key);
+			return;
+		}
+
+		const serialized = annotationsToJson(annotations, options);
+		const session: StoredSession = {
+			version: 2,
+			annotations: serialized.map((annotation, idx) => {
+				const rawInfos = getFiberInfos(annotations[idx]);
+				return {
+					...annotation,
+					fiberInfo: annotation.fiberInfo.map((info, infoIdx) =>
+						toStoredFiberInfo(info, rawInfos[infoIdx]),
+					),
+					locators: annotations[idx].locators ?? [],
+				};
+			}),
+		};
+		localStorage.setItem(key, JSON.stringify(session));
+	} catch (err) {
+		console.warn("Failed to save annotation session:", err);
+	}
+};
+
+export const loadSession = (key = DEFAULT_SESSION_KEY): AnnotationData[] => {
+	try {
+		const raw = localStorage.getItem(key);
+		if (!raw) return [];
+
+		const session = JSON.parse(raw) as StoredSession;
+		if (session?.version !== 2 || !Array.isArray(session.annotations)) {
+			return [];
+		}
+
+		return session.annotations.map((stored) => ({
+			id: stored.id,
+			mode: stored.mode ?? undefined,
+			comment: stored.comment ?? undefined,
+			route: stored.route ?? undefined,
+			rect: stored.rect,
+			fiberInfo: stored.fiberInfo.map(fromStoredFiberInfo),
+			locators: stored.locators,
+		}));
+	} catch (err) {
+		console.warn("Failed to load annotation session:", err);
+		return [];
+	}
+};
+
+// Browsers without the Navigation API don't announce pushState and
+// replaceState, so wrap them. Unsubscribing restores the originals unless
+// someone else has wrapped them since.
+const patchHistory = (notify: () => void) => {
+	let active = true;
+	const restores = (["pushState", "replaceState"] as const).map((method) => {
+		const original = window.history[method];
+		const patched = function (
+			this: History,
+			...args: Parameters<History["pushState"]>
+		) {
+			original.apply(this, args);
+			// Routers call these while rendering, report once they are done
+			if (active) queueMicrotask(notify);
+		};
+		window.history[method] = patched;
+
+		return () => {
+			if (window.history[method] === patched) {
+				window.history[method] = original;
+			}
+		};
+	});
+
+	return () => {
+		active = false;
+		for (const restore of restores) restore();
+	};
+};
+
+// Notify on client-side navigations: back and forward, plus pushState and
+// replaceState through the Navigation API or a history patch
+export const subscribeToRoute = (callback: (route: string) => void) => {
+	const notify = () => callback(window.location.pathname);
+	const navigation = (
+		window as Window & {
+			navigation?: EventTarget;
+		}
+	).navigation;
+
+	window.addEventListener("popstate", notify);
+	navigation?.addEventListener("currententrychange", notify);
+	const unpatch = navigation ? null : patchHistory(notify);
+
+	return () => {
+		window.removeEventListener("popstate", notify);
+		navigation?.removeEventListener("currententrychange", notify);
+		unpatch?.();
+	};
+};
@@ -0,0 +1,62 @@
+import type {
+	AnnotationData,
+	FiberInfo,
+	FiberSource,
+	SourceSnippet,
+} from "../types";
+
+// Client for the dev-only route handler in `api/source/route.ts`
+
+export interface SourceSnippetOptions {
+	// Route handler URL, e.g. "/api/ai-toolbar/source"
+	url: string;
+	// "lines" embeds `context` lines around the location, "element" the whole
+	// enclosing JSX element
+	mode?: "lines" | "element";
+	context?: number;
+}
+
+export const fetchSourceSnippet = async (
+	source: FiberSource,
+	{ url, mode = "lines", context = 6 }: SourceSnippetOptions,
+): Promise<SourceSnippet | null> => {
+	const params = new URLSearchParams({
+		file: source.fileName,
+		line: String(source.lineNumber),
+		column: String(source.columnNumber),
+		context: String(context),
+		mode,
+	});
+
+	try {
+		const response = await fetch(`${url}?${params}`);
+		if (!response.ok) throw new Error(`Source endpoint responded ${response.status}`);
+		return (await response.json()) as SourceSnippet;
+	} catch (err) {
+		console.warn("Failed to load source snippet:", err);
+		return null;
+	}
+};
+
+// Return a copy of the annotation with snippets attached to every fiber that
+// has a source location
+export const withSourceSnippets = async (
+	annotation: AnnotationData,
+	options: SourceSnippetOptions,
+): Promise<AnnotationData> => {
+	const attach = async (info: FiberInfo): Promise<FiberInfo> =>
+		info.source
+			? { ...info, snippet: await fetchSourceSnippet(info.source, options) }
+			: info;
+
+	if (Array.isArray(annotation.fiberInfo)) {
+		return {
+			...annotation,
+			fiberInfo: await Promise.all(annotation.fiberInfo.map(attach)),
+		};
+	}
+
+	return annotation.fiberInfo
+		? { ...annotation, fiberInfo: await attach(annotation.fiberInfo) }
+		: annotation;
+};
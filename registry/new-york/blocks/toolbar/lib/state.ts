@@ -0,0 +1,136 @@
+import {
+	ClassComponentTag,
+	type Fiber,
+	ForwardRefTag,
+	FunctionComponentTag,
+	getDisplayName,
+	getLatestFiber,
+	type MemoizedState,
+	SimpleMemoComponentTag,
+} from "bippy";
+
+import type { ComponentState, HookKind, HookValue } from "../types";
+
+// Runtime state of the component behind a fiber: its hook list and the
+// context values it reads. Hook kinds are inferred from the shapes React
+// stores them in, since hook names aren't kept at runtime.
+
+// Fibers that own a hook list or class state
+const STATEFUL_TAGS = new Set([
+	FunctionComponentTag,
+	ClassComponentTag,
+	ForwardRefTag,
+	SimpleMemoComponentTag,
+]);
+
+interface HookQueue {
+	lastRenderedReducer?: { name?: string } | null;
+	getSnapshot?: unknown;
+}
+
+const isEffect = (state: unknown) =>
+	typeof state === "object" &&
+	state !== null &&
+	"create" in state &&
+	typeof (state as { tag?: unknown }).tag === "number";
+
+const isRef = (state: unknown) =>
+	typeof state === "object" &&
+	state !== null &&
+	Object.keys(state).length === 1 &&
+	"current" in state;
+
+// Effects return null: they are counted for the index but carry no state
+const readHook = (hook: MemoizedState, index: number): HookValue | null => {
+	const state = hook.memoizedState;
+	const queue = hook.queue as HookQueue | null | undefined;
+
+	if (queue && typeof queue === "object") {
+		if ("getSnapshot" in queue) return { index, kind: "store", value: state };
+		// Production builds minify the reducer, so useState reads as a reducer
+		const kind: HookKind =
+			queue.lastRenderedReducer?.name === "basicStateReducer"
+				? "state"
+				: "reducer";
+		return { index, kind, value: state };
+	}
+
+	if (isEffect(state)) return null;
+
+	// useMemo and useCallback store [value, deps]
+	if (
+		Array.isArray(state) &&
+		state.length === 2 &&
+		(state[1] === null || Array.isArray(state[1]))
+	) {
+		return {
+			index,
+			kind: typeof state[0] === "function" ? "callback" : "memo",
+			value: state[0],
+			deps: state[1],
+		};
+	}
+
+	if (isRef(state)) {
+		return {
+			index,
+			kind: "ref",
+			value: (state as { current: unknown }).current,
+		};
+	}
+
+	return { index, kind: "other", value: state };
+};
+
+const getHooks = (fiber: Fiber): HookValue[] => {
+	if (fiber.tag === ClassComponentTag) {
+		return fiber.memoizedState === null
+			? []
+			: [{ index: 0, kind: "state", value: fiber.memoizedState }];
+	}
+
+	const hooks: HookValue[] = [];
+	let hook = fiber.memoizedState as MemoizedState | null;
+	let index = 0;
+	while (hook) {
+		const value = readHook(hook, index);
+		if (value) hooks.push(value);
+		hook = hook.next;
+		index++;
+	}
+	return hooks;
+};
+
+const getContexts = (fiber: Fiber) => {
+	const contexts: ComponentState["contexts"] = [];
+	let dependency = fiber.dependencies?.firstContext ?? null;
+	while (dependency) {
+		contexts.push({
+			name: dependency.context.displayName || "Context",
+			value: dependency.memoizedValue,
+		});
+		dependency = dependency.next;
+	}
+	return contexts;
+};
+
+// State of the fiber's component, or of the nearest component above it for
+// host elements. Null when there is none or it holds no state.
+export const getComponentState = (fiber: Fiber): ComponentState | null => {
+	let current: Fiber | null = fiber;
+	while (current && !STATEFUL_TAGS.has(current.tag)) {
+		current = current.return;
+	}
+	if (!current) return null;
+
+	const component = getLatestFiber(current);
+	const hooks = getHooks(component);
+	const contexts = getContexts(component);
+	if (hooks.length === 0 && contexts.length === 0) return null;
+
+	return {
+		componentName: getDisplayName(component.type) || "Anonymous",
+		hooks,
+		contexts,
+	};
+};
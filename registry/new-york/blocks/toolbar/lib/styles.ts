@@ -0,0 +1,163 @@
+import type { BoxModel, BoxSides, StyleContext } from "../types";
+
+// How an element actually renders: its utility classes, the computed styles
+// that differ from browser defaults, the box model and the parent's layout
+
+// Properties worth telling an agent about, in reading order
+const KEY_PROPERTIES = [
+	"display",
+	"position",
+	"top",
+	"right",
+	"bottom",
+	"left",
+	"z-index",
+	"box-sizing",
+	"flex-direction",
+	"flex-wrap",
+	"justify-content",
+	"align-items",
+	"align-content",
+	"gap",
+	"row-gap",
+	"column-gap",
+	"grid-template-columns",
+	"grid-template-rows",
+	"flex-grow",
+	"flex-shrink",
+	"flex-basis",
+	"align-self",
+	"justify-self",
+	"grid-column",
+	"grid-row",
+	"order",
+	"min-width",
+	"max-width",
+	"min-height",
+	"max-height",
+	"overflow-x",
+	"overflow-y",
+	"font-family",
+	"font-size",
+	"font-weight",
+	"line-height",
+	"letter-spacing",
+	"text-align",
+	"text-transform",
+	"white-space",
+	"color",
+	"background-color",
+	"background-image",
+	"border-color",
+	"border-style",
+	"border-radius",
+	"box-shadow",
+	"outline",
+	"opacity",
+	"transform",
+	"cursor",
+];
+
+// Positioning offsets only mean something on positioned elements
+const OFFSET_PROPERTIES = new Set(["top", "right", "bottom", "left", "z-index"]);
+
+// Defaults per tag, read from a blank iframe so page styles don't apply
+const defaultsCache = new Map<string, Record<string, string>>();
+let defaultsFrame: HTMLIFrameElement | null = null;
+
+const getDefaultStyles = (tagName: string) => {
+	const cached = defaultsCache.get(tagName);
+	if (cached) return cached;
+
+	if (!defaultsFrame?.isConnected) {
+		defaultsFrame = document.createElement("iframe");
+		defaultsFrame.setAttribute("aria-hidden", "true");
+		defaultsFrame.tabIndex = -1;
+		defaultsFrame.style.cssText =
+			"position:fixed;width:0;height:0;border:0;visibility:hidden;pointer-events:none";
+		document.body.appendChild(defaultsFrame);
+	}
+
+	const frameDocument = defaultsFrame.contentDocument;
+	const defaults: Record<string, string> = {};
+	if (frameDocument?.body) {
+		const probe = frameDocument.createElement(tagName);
+		frameDocument.body.appendChild(probe);
+		const computed = getComputedStyle(probe);
+		for (const property of KEY_PROPERTIES) {
+			defaults[property] = computed.getPropertyValue(property);
+		}
+		probe.remove();
+	}
+
+	defaultsCache.set(tagName, defaults);
+	return defaults;
+};
+
+const readSides = (
+	computed: CSSStyleDeclaration,
+	property: (side: string) => string,
+): BoxSides =>
+	["top", "right", "bottom", "left"].map(
+		(side) => Number.parseFloat(computed.getPropertyValue(property(side))) || 0,
+	) as BoxSides;
+
+export const getBoxModel = (element: Element): BoxModel => {
+	const computed = getComputedStyle(element);
+	const rect = element.getBoundingClientRect();
+	return {
+		width: Math.round(rect.width * 100) / 100,
+		height: Math.round(rect.height * 100) / 100,
+		margin: readSides(computed, (side) => `margin-${side}`),
+		border: readSides(computed, (side) => `border-${side}-width`),
+		padding: readSides(computed, (side) => `padding-${side}`),
+	};
+};
+
+// Short description of how the parent lays out its children
+export const describeLayout = (element: Element | null) => {
+	if (!element) return null;
+	const computed = getComputedStyle(element);
+	const { display } = computed;
+
+	if (display.includes("flex")) {
+		const gap = computed.gap !== "normal" ? `, gap ${computed.gap}` : "";
+		return `${display} ${computed.flexDirection}${gap}, justify ${computed.justifyContent}, align ${computed.alignItems}`;
+	}
+	if (display.includes("grid")) {
+		const gap = computed.gap !== "normal" ? `, gap ${computed.gap}` : "";
+		return `${display} columns ${computed.gridTemplateColumns}${gap}`;
+	}
+	return display;
+};
+
+export const getClassNames = (element: Element) =>
+	(element.getAttribute("class") ?? "").split(/\s+/).filter(Boolean);
+
+export const getStyleContext = (element: Element): StyleContext => {
+	const computed = getComputedStyle(element);
+	const defaults = getDefaultStyles(element.tagName.toLowerCase());
+	const isPositioned = computed.position !== "static";
+	const styles: Record<string, string> = {};
+
+	for (const property of KEY_PROPERTIES) {
+		if (OFFSET_PROPERTIES.has(property) && !isPositioned) continue;
+		const value = computed.getPropertyValue(property);
+		if (!value || value === defaults[property]) continue;
+		styles[property] = value;
+	}
+
+	// Border color and style only matter when there is a border
+	const box = getBoxModel(element);
+	if (box.border.every((width) => width === 0)) {
+		delete styles["border-color"];
+		delete styles["border-style"];
+	}
+
+	return {
+		classNames: getClassNames(element),
+		computed: styles,
+		box,
+		parentLayout: describeLayout(element.parentElement),
+	};
+};
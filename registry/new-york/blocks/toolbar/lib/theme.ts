@@ -0,0 +1,437 @@
+// Self-contained styles for the toolbar's shadow root. Nothing here relies
+// on the host app's Tailwind build or shadcn variables, and host styles
+// can't leak in.
+
+// Palettes follow shadcn's neutral theme, plus highlight colors that stay
+// visible on both light and dark pages
+const LIGHT = {
+	background: "oklch(1 0 0)",
+	foreground: "oklch(0.145 0 0)",
+	card: "oklch(1 0 0)",
+	"card-foreground": "oklch(0.145 0 0)",
+	popover: "oklch(1 0 0)",
+	"popover-foreground": "oklch(0.145 0 0)",
+	primary: "oklch(0.205 0 0)",
+	"primary-foreground": "oklch(0.985 0 0)",
+	accent: "oklch(0.97 0 0)",
+	"muted-foreground": "oklch(0.556 0 0)",
+	border: "oklch(0.922 0 0)",
+	input: "oklch(0.922 0 0)",
+	ring: "oklch(0.708 0 0)",
+	destructive: "oklch(0.577 0.245 27.325)",
+	highlight: "oklch(0.623 0.214 259.815)",
+	annotation: "oklch(0.627 0.265 303.9)",
+};
+
+const DARK: typeof LIGHT = {
+	background: "oklch(0.145 0 0)",
+	foreground: "oklch(0.985 0 0)",
+	card: "oklch(0.205 0 0)",
+	"card-foreground": "oklch(0.985 0 0)",
+	popover: "oklch(0.205 0 0)",
+	"popover-foreground": "oklch(0.985 0 0)",
+	primary: "oklch(0.922 0 0)",
+	"primary-foreground": "oklch(0.205 0 0)",
+	accent: "oklch(0.269 0 0)",
+	"muted-foreground": "oklch(0.708 0 0)",
+	border: "oklch(1 0 0 / 10%)",
+	input: "oklch(1 0 0 / 15%)",
+	ring: "oklch(0.556 0 0)",
+	destructive: "oklch(0.704 0.191 22.216)",
+	highlight: "oklch(0.707 0.165 254.624)",
+	annotation: "oklch(0.714 0.203 305.504)",
+};
+
+const toVariables = (palette: typeof LIGHT) =>
+	Object.entries(palette)
+		.map(([name, value]) => `--${name}: ${value};`)
+		.join(" ");
+
+// `color-mix` shorthand for a palette color at some opacity
+const alpha = (name: keyof typeof LIGHT, percent: number) =>
+	`color-mix(in oklab, var(--${name}) ${percent}%, transparent)`;
+
+const SHADOW_MD =
+	"0 4px 6px -1px rgb(0 0 0 / 0.1), 0 2px 4px -2px rgb(0 0 0 / 0.1)";
+const SHADOW_2XL = "0 25px 50px -12px rgb(0 0 0 / 0.25)";
+
+export const TOOLBAR_STYLES = `
+:host {
+	all: initial;
+}
+
+.root {
+	${toVariables(LIGHT)}
+	color-scheme: light;
+	color: var(--foreground);
+	font-family: ui-sans-serif, system-ui, -apple-system, "Segoe UI", Roboto, sans-serif;
+	font-size: 14px;
+	line-height: 1.43;
+	-webkit-font-smoothing: antialiased;
+}
+
+.root[data-theme="dark"] {
+	${toVariables(DARK)}
+	color-scheme: dark;
+}
+
+@media (prefers-color-scheme: dark) {
+	.root[data-theme="system"] {
+		${toVariables(DARK)}
+		color-scheme: dark;
+	}
+}
+
+*, *::before, *::after {
+	box-sizing: border-box;
+	margin: 0;
+}
+
+button {
+	font: inherit;
+	color: inherit;
+	background: none;
+	border: 0;
+	padding: 0;
+	cursor: pointer;
+}
+
+button:focus-visible {
+	outline: 2px solid var(--ring);
+	outline-offset: 2px;
+}
+
+svg {
+	flex-shrink: 0;
+}
+
+.mono {
+	font-family: ui-monospace, SFMono-Regular, Menlo, Consolas, monospace;
+}
+
+.muted {
+	color: var(--muted-foreground);
+}
+
+.truncate {
+	overflow: hidden;
+	text-overflow: ellipsis;
+}
+
+/* Toolbar */
+
+.toolbar {
+	position: fixed;
+	z-index: 1000000;
+	user-select: none;
+}
+
+.toolbar-panel {
+	display: flex;
+	align-items: center;
+	gap: 4px;
+	padding: 8px;
+	border: 1px solid var(--border);
+	border-radius: 16px;
+	background: ${alpha("card", 95)};
+	backdrop-filter: blur(24px);
+	box-shadow: ${SHADOW_2XL};
+}
+
+.drag-handle {
+	display: flex;
+	flex-direction: column;
+	gap: 4px;
+	padding: 8px;
+	border-radius: 8px;
+	cursor: grab;
+	transition: background-color 150ms;
+}
+
+.drag-handle:hover {
+	background: var(--accent);
+}
+
+.drag-handle:active {
+	cursor: grabbing;
+}
+
+.drag-handle span {
+	width: 4px;
+	height: 4px;
+	border-radius: 9999px;
+	background: ${alpha("muted-foreground", 50)};
+}
+
+.counter {
+	padding: 8px 12px;
+	border: 1px solid ${alpha("primary", 20)};
+	border-radius: 8px;
+	background: ${alpha("primary", 10)};
+	color: var(--primary);
+	font-weight: 500;
+	white-space: nowrap;
+}
+
+.tool {
+	position: relative;
+	display: flex;
+	align-items: center;
+	gap: 6px;
+	padding: 12px;
+	border-radius: 8px;
+	color: var(--muted-foreground);
+	transition: background-color 150ms, color 150ms;
+}
+
+.tool:hover {
+	background: ${alpha("accent", 50)};
+	color: var(--foreground);
+}
+
+.tool-active,
+.tool-active:hover {
+	background: var(--accent);
+	color: var(--primary);
+	box-shadow: ${SHADOW_MD};
+}
+
+.tool-indicator {
+	position: absolute;
+	bottom: -4px;
+	left: 50%;
+	width: 4px;
+	height: 4px;
+	border-radius: 9999px;
+	background: var(--primary);
+	transform: translateX(-50%);
+}
+
+.format-button {
+	padding: 12px 8px;
+	font-size: 12px;
+	font-weight: 500;
+}
+
+.queue-button {
+	padding: 8px 12px;
+	font-size: 12px;
+	font-weight: 500;
+}
+
+.tooltip {
+	position: absolute;
+	bottom: -40px;
+	left: 50%;
+	z-index: 50;
+	padding: 6px 12px;
+	border: 1px solid var(--border);
+	border-radius: 8px;
+	background: var(--popover);
+	color: var(--popover-foreground);
+	font-family: inherit;
+	font-size: 12px;
+	font-weight: 400;
+	white-space: nowrap;
+	opacity: 0;
+	pointer-events: none;
+	transform: translateX(-50%);
+	transition: opacity 150ms;
+	box-shadow: ${SHADOW_MD};
+}
+
+.tool:hover .tooltip {
+	opacity: 1;
+}
+
+.tooltip-hotkey {
+	margin-left: 8px;
+	color: var(--muted-foreground);
+}
+
+/* Toast */
+
+.toast {
+	position: fixed;
+	top: 32px;
+	left: 50%;
+	z-index: 1000001;
+	display: flex;
+	align-items: center;
+	gap: 12px;
+	min-width: 300px;
+	padding: 16px 24px;
+	border: 1px solid var(--border);
+	border-radius: 12px;
+	background: var(--card);
+	color: var(--card-foreground);
+	transform: translateX(-50%);
+	box-shadow: ${SHADOW_2XL};
+	animation: toast-in 300ms ease-out;
+}
+
+@keyframes toast-in {
+	from {
+		opacity: 0;
+		transform: translate(-50%, -16px);
+	}
+}
+
+.toast-icon {
+	display: flex;
+	align-items: center;
+	justify-content: center;
+	width: 32px;
+	height: 32px;
+	border-radius: 9999px;
+	background: ${alpha("primary", 10)};
+	color: var(--primary);
+}
+
+.toast-message {
+	font-weight: 500;
+}
+
+.toast-detail {
+	margin-top: 2px;
+	font-size: 12px;
+	color: var(--muted-foreground);
+}
+
+/* Overlays */
+
+.highlight {
+	position: fixed;
+	z-index: 999998;
+	border-width: 2px;
+	pointer-events: none;
+	transition: all 150ms;
+}
+
+.highlight-primary {
+	border-color: var(--highlight);
+	background: ${alpha("highlight", 10)};
+}
+
+.highlight-secondary {
+	border-color: var(--annotation);
+	background: ${alpha("annotation", 10)};
+}
+
+.highlight-detached {
+	border-color: ${alpha("destructive", 70)};
+	background: ${alpha("destructive", 5)};
+	opacity: 0.7;
+	transition: none;
+}
+
+.highlight-badge {
+	position: absolute;
+	top: -20px;
+	left: 0;
+	padding: 0 6px;
+	border-radius: 4px;
+	background: var(--destructive);
+	color: white;
+	font-size: 10px;
+	font-weight: 500;
+	line-height: 16px;
+}
+
+.inspector-label {
+	position: fixed;
+	z-index: 999999;
+	display: flex;
+	align-items: center;
+	gap: 8px;
+	padding: 0 8px;
+	border: 1px solid var(--border);
+	border-radius: 6px;
+	background: var(--popover);
+	color: var(--popover-foreground);
+	font-size: 12px;
+	white-space: nowrap;
+	overflow: hidden;
+	pointer-events: none;
+	box-shadow: ${SHADOW_MD};
+}
+
+.inspector-name {
+	font-weight: 600;
+	color: var(--highlight);
+}
+
+.selection-rect {
+	position: fixed;
+	z-index: 999998;
+	border: 2px dashed var(--annotation);
+	background: ${alpha("annotation", 10)};
+	pointer-events: none;
+}
+
+/* Comment popover */
+
+.popover {
+	position: fixed;
+	z-index: 1000000;
+	display: flex;
+	flex-direction: column;
+	gap: 8px;
+	padding: 12px;
+	border: 1px solid var(--border);
+	border-radius: 12px;
+	background: var(--card);
+	color: var(--card-foreground);
+	box-shadow: ${SHADOW_2XL};
+}
+
+.popover-input {
+	width: 100%;
+	min-height: 80px;
+	padding: 8px 12px;
+	border: 1px solid var(--input);
+	border-radius: 6px;
+	background: transparent;
+	color: inherit;
+	font: inherit;
+	resize: none;
+	outline: none;
+}
+
+.popover-input::placeholder {
+	color: var(--muted-foreground);
+}
+
+.popover-input:focus-visible {
+	border-color: var(--ring);
+	box-shadow: 0 0 0 3px ${alpha("ring", 50)};
+}
+
+.popover-actions {
+	display: flex;
+	align-items: center;
+	justify-content: flex-end;
+	gap: 8px;
+}
+
+.button {
+	height: 32px;
+	padding: 0 12px;
+	border-radius: 6px;
+	font-weight: 500;
+	transition: background-color 150ms;
+}
+
+.button-ghost:hover {
+	background: var(--accent);
+}
+
+.button-primary {
+	background: var(--primary);
+	color: var(--primary-foreground);
+}
+
+.button-primary:hover {
+	background: ${alpha("primary", 90)};
+}
+`;
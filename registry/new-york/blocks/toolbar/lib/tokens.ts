@@ -0,0 +1,289 @@
+import type { BoxSides, TokenMatch } from "../types";
+import { getBoxModel } from "./styles";
+
+// Map an element's rendered colors, radii and spacing back to the theme's
+// CSS custom properties and the Tailwind scale, so agents reuse tokens
+// instead of hard-coding values
+
+export type Rgba = [number, number, number, number];
+
+interface ColorToken {
+	name: string;
+	rgba: Rgba;
+}
+
+// Per-channel distance still treated as the same color, loose enough for
+// the rounding of semi-transparent mixes
+const EXACT_COLOR_DISTANCE = 6;
+// Past this the nearest token is too far off to suggest
+const MAX_COLOR_DISTANCE = 40;
+
+const COLOR_UTILITIES: Record<string, string> = {
+	color: "text",
+	"background-color": "bg",
+	"border-color": "border",
+};
+
+const colorCache = new Map<string, Rgba | null>();
+let colorContext: CanvasRenderingContext2D | null = null;
+
+// Any CSS color (oklch, color-mix, named, …) to 8-bit RGBA by painting it
+export const parseColor = (value: string): Rgba | null => {
+	const cached = colorCache.get(value);
+	if (cached !== undefined) return cached;
+
+	let result: Rgba | null = null;
+	if (value && CSS.supports("color", value)) {
+		colorContext ??= document
+			.createElement("canvas")
+			.getContext("2d", { willReadFrequently: true });
+		if (colorContext) {
+			colorContext.canvas.width = 1;
+			colorContext.canvas.height = 1;
+			colorContext.clearRect(0, 0, 1, 1);
+			colorContext.fillStyle = value;
+			colorContext.fillRect(0, 0, 1, 1);
+			const [r, g, b, a] = colorContext.getImageData(0, 0, 1, 1).data;
+			result = [r, g, b, a];
+		}
+	}
+
+	colorCache.set(value, result);
+	return result;
+};
+
+const colorDistance = (a: Rgba, b: Rgba) =>
+	Math.max(
+		Math.abs(a[0] - b[0]),
+		Math.abs(a[1] - b[1]),
+		Math.abs(a[2] - b[2]),
+	);
+
+const isRootSelector = (selector: string) =>
+	/(^|,)\s*(:root|:host|html|\.dark)\b/.test(selector);
+
+// Custom property names declared on the root by any same-origin stylesheet
+const getRootPropertyNames = () => {
+	const names = new Set<string>();
+
+	const visit = (rules: CSSRuleList) => {
+		for (const rule of rules) {
+			if (rule instanceof CSSStyleRule && isRootSelector(rule.selectorText)) {
+				for (const property of rule.style) {
+					if (property.startsWith("--")) names.add(property);
+				}
+			}
+			// @layer, @media and @supports blocks
+			if ("cssRules" in rule && rule.cssRules instanceof CSSRuleList) {
+				visit(rule.cssRules);
+			}
+		}
+	};
+
+	for (const sheet of document.styleSheets) {
+		try {
+			visit(sheet.cssRules);
+		} catch {
+			// Cross-origin stylesheets can't be read
+		}
+	}
+	return names;
+};
+
+export interface ThemeTokens {
+	colors: ColorToken[];
+	// Base spacing unit in px, Tailwind's `--spacing`
+	spacing: number;
+	// Radius scale in px, keyed by utility suffix
+	radii: Record<string, number>;
+}
+
+const toPixels = (value: string) => {
+	const number = Number.parseFloat(value);
+	if (Number.isNaN(number)) return null;
+	if (value.trim().endsWith("rem")) {
+		const rootFontSize = getComputedStyle(document.documentElement).fontSize;
+		return number * Number.parseFloat(rootFontSize);
+	}
+	return number;
+};
+
+// Read the theme from the document. Call again after switching themes.
+export const readThemeTokens = (): ThemeTokens => {
+	const root = getComputedStyle(document.documentElement);
+	const colors: ColorToken[] = [];
+
+	for (const name of getRootPropertyNames()) {
+		const value = root.getPropertyValue(name).trim();
+		if (!value || !CSS.supports("color", value)) continue;
+		const rgba = parseColor(value);
+		if (rgba) colors.push({ name, rgba });
+	}
+
+	// Prefer semantic shadcn names over Tailwind's palette aliases
+	colors.sort(
+		(a, b) =>
+			Number(a.name.startsWith("--color-")) -
+			Number(b.name.startsWith("--color-")),
+	);
+
+	const spacing = toPixels(root.getPropertyValue("--spacing")) ?? 4;
+	const radius = toPixels(root.getPropertyValue("--radius"));
+	// shadcn derives its radius scale from `--radius`, see globals.css
+	const radii: Record<string, number> =
+		radius === null
+			? { sm: 4, md: 6, lg: 8, xl: 12, "2xl": 16, "3xl": 24 }
+			: { sm: radius - 4, md: radius - 2, lg: radius, xl: radius + 4 };
+
+	return { colors, spacing, radii };
+};
+
+// `--muted-foreground` or `--color-red-500` as a Tailwind color name
+const toColorName = (name: string) => name.replace(/^--(color-)?/, "");
+
+const matchColor = (
+	property: string,
+	value: string,
+	tokens: ThemeTokens,
+): TokenMatch | null => {
+	const rgba = parseColor(value);
+	if (!rgba || rgba[3] === 0) return null;
+
+	let best: { token: ColorToken; distance: number } | null = null;
+	for (const token of tokens.colors) {
+		const distance = colorDistance(rgba, token.rgba);
+		if (!best || distance < best.distance) best = { token, distance };
+	}
+	if (!best || best.distance > MAX_COLOR_DISTANCE) {
+		return { property, value, token: null, utility: null, exact: false };
+	}
+
+	// Translucent colors are usually `bg-primary/10` style modifiers
+	const alpha = Math.round((rgba[3] / 255) * 100);
+	const opacity =
+		alpha < 100 && best.token.rgba[3] === 255 ? `/${alpha}` : "";
+	const utility = `${COLOR_UTILITIES[property]}-${toColorName(best.token.name)}`;
+	return {
+		property,
+		value,
+		token: best.token.name,
+		utility: `${utility}${opacity}`,
+		exact: best.distance <= EXACT_COLOR_DISTANCE,
+	};
+};
+
+// Step on the spacing scale, e.g. 16px with a 4px unit is "4"
+const toSpacingStep = (px: number, unit: number) => {
+	if (px === 0) return "0";
+	const step = px / unit;
+	return Number.isInteger(step * 2) ? String(step) : null;
+};
+
+const spacingMatch = (
+	property: string,
+	prefix: string,
+	px: number,
+	tokens: ThemeTokens,
+): TokenMatch => {
+	const step = toSpacingStep(Math.abs(px), tokens.spacing);
+	const sign = px < 0 ? "-" : "";
+	return {
+		property,
+		value: `${px}px`,
+		token: step === null ? null : "--spacing",
+		utility:
+			step === null ? `${prefix}-[${px}px]` : `${sign}${prefix}-${step}`,
+		exact: step !== null,
+	};
+};
+
+// Collapse box sides the way the utilities do: p-4, px-4 py-2, or per side
+const matchSides = (
+	property: string,
+	prefix: string,
+	[top, right, bottom, left]: BoxSides,
+	tokens: ThemeTokens,
+) => {
+	if (top === 0 && right === 0 && bottom === 0 && left === 0) return [];
+	if (top === right && right === bottom && bottom === left) {
+		return [spacingMatch(property, prefix, top, tokens)];
+	}
+	if (top === bottom && right === left) {
+		return [
+			spacingMatch(`${property}-inline`, `${prefix}x`, right, tokens),
+			spacingMatch(`${property}-block`, `${prefix}y`, top, tokens),
+		];
+	}
+	return (
+		[
+			["top", "t", top],
+			["right", "r", right],
+			["bottom", "b", bottom],
+			["left", "l", left],
+		] as const
+	)
+		.filter(([, , px]) => px !== 0)
+		.map(([side, suffix, px]) =>
+			spacingMatch(`${property}-${side}`, `${prefix}${suffix}`, px, tokens),
+		);
+};
+
+const matchRadius = (value: string, tokens: ThemeTokens): TokenMatch | null => {
+	const px = Number.parseFloat(value);
+	if (!px) return null;
+	if (px >= 9999) {
+		return {
+			property: "border-radius",
+			value,
+			token: null,
+			utility: "rounded-full",
+			exact: true,
+		};
+	}
+
+	const [name, size] = Object.entries(tokens.radii).reduce((best, entry) =>
+		Math.abs(entry[1] - px) < Math.abs(best[1] - px) ? entry : best,
+	);
+	const exact = Math.abs(size - px) < 0.5;
+	return {
+		property: "border-radius",
+		value,
+		token: exact ? `--radius-${name}` : null,
+		utility: exact ? `rounded-${name}` : `rounded-[${px}px]`,
+		exact,
+	};
+};
+
+// Token usage of one element. The theme is read on every call so light and
+// dark mode both resolve correctly.
+export const getTokenMatches = (
+	element: Element,
+	tokens: ThemeTokens = readThemeTokens(),
+): TokenMatch[] => {
+	const computed = getComputedStyle(element);
+	const box = getBoxModel(element);
+	const matches: (TokenMatch | null)[] = [];
+
+	for (const property of Object.keys(COLOR_UTILITIES)) {
+		if (
+			property === "border-color" &&
+			box.border.every((width) => width === 0)
+		) {
+			continue;
+		}
+		matches.push(
+			matchColor(property, computed.getPropertyValue(property), tokens),
+		);
+	}
+
+	matches.push(matchRadius(computed.borderTopLeftRadius, tokens));
+	matches.push(...matchSides("padding", "p", box.padding, tokens));
+	matches.push(...matchSides("margin", "m", box.margin, tokens));
+
+	const gap = toPixels(computed.rowGap);
+	if (gap && computed.display.match(/flex|grid/)) {
+		matches.push(spacingMatch("gap", "gap", gap, tokens));
+	}
+
+	return matches.filter((match): match is TokenMatch => match !== null);
+};
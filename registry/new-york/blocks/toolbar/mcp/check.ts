@@ -0,0 +1,128 @@
+// Drives the MCP server with a stub client over an in-memory transport and
+// posts to its HTTP endpoint on a random port, no agent or stdio needed:
+//
+//   npm run mcp:check
+import assert from "node:assert/strict";
+import type { AddressInfo } from "node:net";
+
+import { Client } from "@modelcontextprotocol/sdk/client/index.js";
+import { InMemoryTransport } from "@modelcontextprotocol/sdk/inMemory.js";
+
+import { createToolbarServer } from "./server";
+
+const payload = {
+	url: "http://localhost:3000/",
+	prompt: "Make the button blue",
+	annotations: [
+		{
+			id: 1,
+			mode: "single-select",
+			comment: "Make it blue",
+			rect: { left: 0, top: 0, width: 100, height: 40 },
+			fiberInfo: [
+				{
+					componentName: "Button",
+					source: {
+						fileName: "components/button.tsx",
+						lineNumber: 12,
+						columnNumber: 5,
+					},
+					ancestors: [{ componentName: "Page" }],
+					props: { variant: '"primary"' },
+				},
+			],
+		},
+	],
+};
+
+// Text content of a tool result, parsed as JSON
+const callTool = async (client: Client, name: string) => {
+	const result = await client.callTool({ name });
+	const [first] = result.content as { type: string; text?: string }[];
+	assert.equal(first?.type, "text");
+	return first.text ?? "";
+};
+
+const main = async () => {
+	const { server, httpServer } = createToolbarServer();
+	const client = new Client({ name: "stub-client", version: "0.0.0" });
+	const [clientTransport, serverTransport] =
+		InMemoryTransport.createLinkedPair();
+	await Promise.all([
+		server.connect(serverTransport),
+		client.connect(clientTransport),
+	]);
+
+	await new Promise<void>((resolve) =>
+		httpServer.listen(0, "127.0.0.1", resolve),
+	);
+	const { port } = httpServer.address() as AddressInfo;
+	const endpoint = `http://127.0.0.1:${port}/annotations`;
+
+	try {
+		const { tools } = await client.listTools();
+		assert.deepEqual(tools.map((tool) => tool.name).sort(), [
+			"clear_selection",
+			"get_latest_selection",
+			"get_selected_elements",
+		]);
+
+		assert.match(
+			await callTool(client, "get_latest_selection"),
+			/^No selection yet/,
+		);
+
+		const posted = await fetch(endpoint, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: JSON.stringify(payload),
+		});
+		assert.equal(posted.status, 201);
+
+		const latest = JSON.parse(await callTool(client, "get_latest_selection"));
+		assert.deepEqual(latest.elements[0], {
+			componentName: "Button",
+			source: "components/button.tsx:12:5",
+			domPath: null,
+			componentPath: "Page > Button",
+			props: { variant: '"primary"' },
+			comment: "Make it blue",
+		});
+
+		const all = JSON.parse(await callTool(client, "get_selected_elements"));
+		assert.equal(all.length, 1);
+
+		const foreign = await fetch(endpoint, {
+			method: "POST",
+			headers: {
+				"Content-Type": "application/json",
+				Origin: "https://example.com",
+			},
+			body: JSON.stringify(payload),
+		});
+		assert.equal(foreign.status, 403);
+
+		const oversized = await fetch(endpoint, {
+			method: "POST",
+			headers: { "Content-Type": "application/json" },
+			body: "x".repeat(21 * 1024 * 1024),
+		});
+		assert.equal(oversized.status, 413);
+
+		const cleared = JSON.parse(await callTool(client, "clear_selection"));
+		assert.deepEqual(cleared, { cleared: 1 });
+		const empty = JSON.parse(await callTool(client, "get_selected_elements"));
+		assert.deepEqual(empty, []);
+
+		console.log("[ai-toolbar-mcp] Stub client check passed");
+	} finally {
+		await client.close();
+		await server.close();
+		httpServer.close();
+	}
+};
+
+main().catch((err) => {
+	console.error("[ai-toolbar-mcp] Check failed:", err);
+	process.exit(1);
+});
@@ -0,0 +1,298 @@
+import { randomUUID } from "node:crypto";
+import {
+	createServer,
+	type IncomingMessage,
+	type ServerResponse,
+} from "node:http";
+import { pathToFileURL } from "node:url";
+
+import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
+
+import { bridgePayloadSchema } from "../lib/schema";
+import type {
+	AnnotationScreenshot,
+	BridgeEntry,
+	FiberSource,
+} from "../types";
+
+// Local MCP server for coding agents. The toolbar POSTs selections to the
+// HTTP endpoint (same protocol as the dev route bridge) and agents pull them
+// through MCP tools over stdio.
+//
+//   npx tsx components/ai-toolbar/mcp/server.ts
+//   <AIToolbar bridgeUrl="http://127.0.0.1:4815/annotations" />
+//
+// Importing the module starts nothing, `createToolbarServer()` returns both
+// halves unconnected so they can be driven by other transports.
+
+const PORT = Number(process.env.AI_TOOLBAR_MCP_PORT) || 4815;
+const HOST = "127.0.0.1";
+// Oldest selections are dropped past this many
+const MAX_ENTRIES = 50;
+// Largest POST body accepted, room for a handful of screenshots
+const MAX_BODY_BYTES = 20 * 1024 * 1024;
+
+// Screenshots stay in memory as data URLs instead of files on disk
+type ServerEntry = Omit<BridgeEntry, "screenshots"> & {
+	screenshots?: AnnotationScreenshot[];
+};
+
+const formatSource = (source: FiberSource | null | undefined) =>
+	source
+		? `${source.fileName}:${source.lineNumber}:${source.columnNumber}`
+		: null;
+
+// Flatten an entry into the per-element view agents work with
+const describeEntry = (entry: ServerEntry) => ({
+	id: entry.id,
+	url: entry.url,
+	receivedAt: entry.createdAt,
+	elements: entry.annotations.flatMap((annotation) =>
+		annotation.fiberInfo.map((info) => ({
+			componentName: info.componentName,
+			source: formatSource(info.source),
+			domPath: info.domPath ?? null,
+			componentPath: [
+				...info.ancestors.map((ancestor) => ancestor.componentName),
+				info.componentName,
+			].join(" > "),
+			props: info.props,
+			comment: annotation.comment,
+		})),
+	),
+	prompt: entry.prompt,
+	screenshots: entry.screenshots?.length ?? 0,
+});
+
+const jsonContent = (value: unknown) => ({
+	content: [{ type: "text" as const, text: JSON.stringify(value, null, 2) }],
+});
+
+// Only pages served from this machine may talk to the endpoint
+const isLocalOrigin = (origin: string | undefined) => {
+	if (!origin) return false;
+	try {
+		const { hostname } = new URL(origin);
+		return ["localhost", "127.0.0.1", "[::1]"].includes(hostname);
+	} catch {
+		return false;
+	}
+};
+
+const sendJson = (
+	req: IncomingMessage,
+	res: ServerResponse,
+	status: number,
+	body?: unknown,
+) => {
+	const origin = req.headers.origin;
+	if (isLocalOrigin(origin)) {
+		res.setHeader("Access-Control-Allow-Origin", origin as string);
+		res.setHeader("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+		res.setHeader("Access-Control-Allow-Headers", "Content-Type");
+		res.setHeader("Vary", "Origin");
+	}
+	if (body === undefined) {
+		res.writeHead(status).end();
+		return;
+	}
+	res.writeHead(status, { "Content-Type": "application/json" });
+	res.end(JSON.stringify(body));
+};
+
+// Resolves to null once the body grows past MAX_BODY_BYTES, the rest of it
+// is drained and dropped
+const readBody = (req: IncomingMessage) =>
+	new Promise<string | null>((resolve, reject) => {
+		if (Number(req.headers["content-length"]) > MAX_BODY_BYTES) {
+			req.resume();
+			resolve(null);
+			return;
+		}
+
+		const chunks: Buffer[] = [];
+		let size = 0;
+		req.on("data", (chunk: Buffer) => {
+			size += chunk.length;
+			if (size > MAX_BODY_BYTES) {
+				chunks.length = 0;
+				resolve(null);
+				return;
+			}
+			chunks.push(chunk);
+		});
+		req.on("end", () => resolve(Buffer.concat(chunks).toString("utf8")));
+		req.on("error", reject);
+	});
+
+// MCP server and HTTP endpoint sharing one in-memory queue
+export const createToolbarServer = () => {
+	const entries: ServerEntry[] = [];
+	const server = new McpServer({ name: "ai-toolbar", version: "0.1.0" });
+
+	server.registerTool(
+		"get_selected_elements",
+		{
+			title: "Get selected elements",
+			description:
+				"List every element selection sent from the AI toolbar that has not been cleared, oldest first. Each element includes component name, source location, component path, props and the user's comment.",
+			annotations: { readOnlyHint: true },
+		},
+		async () => jsonContent(entries.map(describeEntry)),
+	);
+
+	server.registerTool(
+		"get_latest_selection",
+		{
+			title: "Get latest selection",
+			description:
+				"Return the most recent selection sent from the AI toolbar, i.e. what the user just clicked, with screenshots of the selected regions when the toolbar captured them.",
+			annotations: { readOnlyHint: true },
+		},
+		async () => {
+			const latest = entries.at(-1);
+			if (!latest) {
+				return {
+					content: [
+						{
+							type: "text" as const,
+							text: "No selection yet. Ask the user to select an element with the AI toolbar.",
+						},
+					],
+				};
+			}
+			// Multimodal agents get the captured regions as images
+			const images = (latest.screenshots ?? []).map((screenshot) => ({
+				type: "image" as const,
+				data: screenshot.dataUrl.split(",")[1],
+				mimeType: "image/png",
+			}));
+			return {
+				content: [...jsonContent(describeEntry(latest)).content, ...images],
+			};
+		},
+	);
+
+	server.registerTool(
+		"clear_selection",
+		{
+			title: "Clear selection",
+			description:
+				"Remove all pending selections once they have been handled.",
+			annotations: { destructiveHint: true, idempotentHint: true },
+		},
+		async () => {
+			const cleared = entries.splice(0, entries.length).length;
+			return jsonContent({ cleared });
+		},
+	);
+
+	const handleRequest = async (req: IncomingMessage, res: ServerResponse) => {
+		if (req.headers.origin && !isLocalOrigin(req.headers.origin)) {
+			sendJson(req, res, 403, { error: "Only local origins are allowed" });
+			return;
+		}
+
+		const { pathname, searchParams } = new URL(
+			req.url ?? "/",
+			`http://${HOST}`,
+		);
+		if (pathname !== "/annotations") {
+			sendJson(req, res, 404, { error: "Not found" });
+			return;
+		}
+
+		switch (req.method) {
+			case "OPTIONS":
+				sendJson(req, res, 204);
+				return;
+			case "GET":
+				sendJson(req, res, 200, { entries, count: entries.length });
+				return;
+			case "POST": {
+				const raw = await readBody(req);
+				if (raw === null) {
+					sendJson(req, res, 413, { error: "Request body is too large" });
+					return;
+				}
+
+				let body: unknown;
+				try {
+					body = JSON.parse(raw);
+				} catch {
+					sendJson(req, res, 400, { error: "Invalid JSON body" });
+					return;
+				}
+
+				const parsed = bridgePayloadSchema.safeParse(body);
+				if (!parsed.success) {
+					sendJson(req, res, 400, {
+						error: "Invalid annotation payload",
+						issues: parsed.error.issues,
+					});
+					return;
+				}
+
+				const entry: ServerEntry = {
+					id: randomUUID(),
+					createdAt: new Date().toISOString(),
+					...parsed.data,
+				};
+				entries.push(entry);
+				entries.splice(0, Math.max(0, entries.length - MAX_ENTRIES));
+
+				sendJson(req, res, 201, { entry, count: entries.length });
+				return;
+			}
+			case "DELETE": {
+				const id = searchParams.get("id");
+				if (id) {
+					const idx = entries.findIndex((entry) => entry.id === id);
+					if (idx !== -1) entries.splice(idx, 1);
+				} else {
+					entries.length = 0;
+				}
+				sendJson(req, res, 200, { count: entries.length });
+				return;
+			}
+			default:
+				sendJson(req, res, 405, { error: "Method not allowed" });
+		}
+	};
+
+	return { server, httpServer: createServer(handleRequest), entries };
+};
+
+const main = async () => {
+	const { server, httpServer } = createToolbarServer();
+
+	// stdout belongs to the MCP transport, so diagnostics go to stderr
+	httpServer.on("error", (err) => {
+		console.error("[ai-toolbar-mcp] HTTP endpoint failed:", err);
+	});
+	httpServer.listen(PORT, HOST, () => {
+		console.error(
+			`[ai-toolbar-mcp] Listening for toolbar selections on http://${HOST}:${PORT}/annotations`,
+		);
+	});
+
+	await server.connect(new StdioServerTransport());
+
+	// Exit together with the agent that spawned us
+	process.stdin.on("end", () => {
+		httpServer.close();
+		process.exit(0);
+	});
+};
+
+// Only start when run directly, not when imported
+if (
+	process.argv[1] &&
+	import.meta.url === pathToFileURL(process.argv[1]).href
+) {
+	main().catch((err) => {
+		console.error("[ai-toolbar-mcp] Failed to start:", err);
+		process.exit(1);
+	});
+}
@@ -0,0 +1,37 @@
+// Bundles the standalone toolbar, React included, into one classic script:
+//
+//   npm run build:standalone
+//
+// Writes public/standalone/ai-toolbar.js under the working directory, served
+// by this app at /standalone/ai-toolbar.js. Pass --watch to rebuild on change.
+import { build, context, type BuildOptions } from "esbuild";
+import path from "node:path";
+
+const options: BuildOptions = {
+	entryPoints: [path.join(__dirname, "index.tsx")],
+	outfile: path.resolve("public/standalone/ai-toolbar.js"),
+	bundle: true,
+	format: "iife",
+	platform: "browser",
+	target: "es2022",
+	jsx: "automatic",
+	minify: true,
+	sourcemap: true,
+	// The toolbar's own React, not the page's, so the production build is fine
+	define: { "process.env.NODE_ENV": '"production"' },
+	logLevel: "info",
+};
+
+const main = async () => {
+	if (process.argv.includes("--watch")) {
+		const ctx = await context(options);
+		await ctx.watch();
+	} else {
+		await build(options);
+	}
+};
+
+main().catch(() => {
+	// esbuild has already logged the errors
+	process.exit(1);
+});
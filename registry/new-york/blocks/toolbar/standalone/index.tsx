@@ -0,0 +1,175 @@
+// Standalone build of the toolbar for pages whose source we can't change.
+// bippy installs the React DevTools hook as soon as it is imported, so this
+// script must run before the page's own React: put it first in <head>.
+import "bippy";
+
+import { createRef } from "react";
+import { createRoot, type Root } from "react-dom/client";
+
+import AIAnnotationToolbar, { type AIToolbarProps } from "../ai-toolbar";
+import type { SelectGranularity } from "../hooks/use-bippy";
+import type {
+	AIToolbarHandle,
+	ToolbarDock,
+	ToolbarMode,
+	ToolbarTheme,
+} from "../types";
+
+const TAG_NAME = "ai-toolbar";
+
+const BOOLEAN_ATTRIBUTES = {
+	screenshots: "screenshots",
+	"style-context": "styleContext",
+	"design-tokens": "designTokens",
+	accessibility: "accessibility",
+	"component-state": "componentState",
+} as const;
+
+const OBSERVED_ATTRIBUTES = [
+	...Object.keys(BOOLEAN_ATTRIBUTES),
+	"bridge-url",
+	"source-url",
+	"project-root",
+	"modes",
+	"position",
+	"theme",
+	"granularity",
+	"default-format",
+	"persist-session",
+	"toast-duration",
+	"clear-delay",
+];
+
+const toNumber = (value: string | null) =>
+	value === null || value === "" || Number.isNaN(Number(value))
+		? undefined
+		: Number(value);
+
+// Props expressible as HTML attributes. Anything else (formatters,
+// redaction predicates, callbacks) goes through the `config` property.
+const propsFromAttributes = (element: HTMLElement): AIToolbarProps => {
+	const attribute = (name: string) => element.getAttribute(name) ?? undefined;
+	const props: AIToolbarProps = {
+		bridgeUrl: attribute("bridge-url"),
+		projectRoot: attribute("project-root"),
+		position: attribute("position") as ToolbarDock | undefined,
+		theme: attribute("theme") as ToolbarTheme | undefined,
+		granularity: attribute("granularity") as SelectGranularity | undefined,
+		defaultFormat: attribute("default-format"),
+		toastDuration: toNumber(element.getAttribute("toast-duration")),
+		clearDelay: toNumber(element.getAttribute("clear-delay")),
+	};
+
+	const modes = attribute("modes");
+	if (modes) {
+		props.modes = modes.split(",").map((mode) => mode.trim()) as ToolbarMode[];
+	}
+
+	const sourceUrl = attribute("source-url");
+	if (sourceUrl) props.sourceSnippets = { url: sourceUrl };
+
+	// A bare attribute turns the session on, a value sets the storage key
+	const persistSession = attribute("persist-session");
+	if (persistSession !== undefined) {
+		props.persistSession = persistSession || true;
+	}
+
+	for (const [name, prop] of Object.entries(BOOLEAN_ATTRIBUTES)) {
+		if (element.hasAttribute(name)) props[prop] = true;
+	}
+
+	return props;
+};
+
+// `<ai-toolbar>`: renders the toolbar with its own copy of React. Annotations
+// and prompts are also dispatched as "ai-toolbar:annotate" and
+// "ai-toolbar:copy" DOM events.
+export class AIToolbarElement extends HTMLElement {
+	static observedAttributes = OBSERVED_ATTRIBUTES;
+
+	#root: Root | null = null;
+	#config: AIToolbarProps = {};
+	#handle = createRef<AIToolbarHandle>();
+
+	// Same object `useAIToolbar()` returns in React apps, null until mounted
+	get handle() {
+		return this.#handle.current;
+	}
+
+	get config() {
+		return this.#config;
+	}
+
+	// Props merged over the attributes
+	set config(config: AIToolbarProps) {
+		this.#config = config;
+		this.#render();
+	}
+
+	connectedCallback() {
+		this.style.display = "contents";
+		this.#root = createRoot(this);
+		this.#render();
+	}
+
+	disconnectedCallback() {
+		this.#root?.unmount();
+		this.#root = null;
+	}
+
+	attributeChangedCallback() {
+		this.#render();
+	}
+
+	#render() {
+		if (!this.#root) return;
+		const config = this.#config;
+
+		this.#root.render(
+			<AIAnnotationToolbar
+				{...propsFromAttributes(this)}
+				{...config}
+				onAnnotate={(annotation) => {
+					config.onAnnotate?.(annotation);
+					this.dispatchEvent(
+						new CustomEvent("ai-toolbar:annotate", { detail: annotation }),
+					);
+				}}
+				onCopy={(event) => {
+					config.onCopy?.(event);
+					this.dispatchEvent(
+						new CustomEvent("ai-toolbar:copy", { detail: event }),
+					);
+				}}
+				ref={this.#handle}
+			/>,
+		);
+	}
+}
+
+if (!customElements.get(TAG_NAME)) {
+	customElements.define(TAG_NAME, AIToolbarElement);
+}
+
+// Used as a plain <script>, mount a toolbar configured by the script's data-*
+// attributes, e.g. data-bridge-url or data-accessibility. Pages that place
+// their own <ai-toolbar>, or set data-manual, are left alone.
+const script = document.currentScript;
+
+const autoMount = () => {
+	if (!script || script.hasAttribute("data-manual")) return;
+	if (document.querySelector(TAG_NAME)) return;
+
+	const element = document.createElement(TAG_NAME);
+	for (const [key, value] of Object.entries(script.dataset)) {
+		const name = key.replace(/[A-Z]/g, (char) => `-${char.toLowerCase()}`);
+		element.setAttribute(name, value ?? "");
+	}
+	document.body.appendChild(element);
+};
+
+if (document.readyState === "loading") {
+	document.addEventListener("DOMContentLoaded", autoMount, { once: true });
+} else {
+	autoMount();
+}
@@ -0,0 +1,260 @@
+// Shared TypeScript interfaces for the toolbar and its hooks
+export interface FiberSource {
+	fileName: string;
+	lineNumber: number;
+	columnNumber: number;
+}
+
+export interface FiberAncestor {
+	componentName: string;
+	source?: FiberSource | null;
+}
+
+// Lines read from disk around a fiber's source location
+export interface SourceSnippet {
+	fileName: string;
+	language: string;
+	startLine: number;
+	endLine: number;
+	targetLine: number;
+	lines: string[];
+}
+
+// Top, right, bottom, left in CSS pixels
+export type BoxSides = [number, number, number, number];
+
+export interface BoxModel {
+	width: number;
+	height: number;
+	margin: BoxSides;
+	border: BoxSides;
+	padding: BoxSides;
+}
+
+export interface StyleContext {
+	classNames: string[];
+	// Key computed styles that differ from the browser defaults
+	computed: Record<string, string>;
+	box: BoxModel;
+	// How the parent lays out its children, e.g. "flex column, gap 8px"
+	parentLayout: string | null;
+}
+
+// A rendered value and the theme token or Tailwind step it corresponds to
+export interface TokenMatch {
+	property: string;
+	value: string;
+	// CSS custom property, e.g. "--muted-foreground", or null when off-theme
+	token: string | null;
+	// Closest utility class, e.g. "text-muted-foreground" or "p-[13px]"
+	utility: string | null;
+	exact: boolean;
+}
+
+export interface ContrastInfo {
+	ratio: number;
+	// WCAG AA minimum for the text size, 4.5 or 3
+	required: number;
+	foreground: string;
+	background: string;
+}
+
+export interface AccessibilityContext {
+	role: string | null;
+	name: string;
+	description: string | null;
+	aria: Record<string, string>;
+	focusable: boolean;
+	// The tabindex attribute, null when not set
+	tabIndex: number | null;
+	// Text of associated <label> elements
+	labels: string[];
+	contrast: ContrastInfo | null;
+	// Problems found by the built-in checks
+	issues: string[];
+}
+
+// useState, useReducer, useRef, useMemo, useCallback, useSyncExternalStore,
+// or anything else that keeps a value (useId, useTransition, …)
+export type HookKind =
+	| "state"
+	| "reducer"
+	| "ref"
+	| "memo"
+	| "callback"
+	| "store"
+	| "other";
+
+export interface HookValue {
+	// Position in the hook list. Effects take a slot, useContext doesn't.
+	index: number;
+	kind: HookKind;
+	value: unknown;
+	// Dependencies of useMemo and useCallback
+	deps?: unknown[] | null;
+}
+
+export interface ContextValue {
+	// The context's displayName
+	name: string;
+	value: unknown;
+}
+
+export interface ComponentState {
+	// Component the hooks belong to, the nearest one for host elements
+	componentName: string;
+	hooks: HookValue[];
+	contexts: ContextValue[];
+}
+
+export interface FiberInfo {
+	componentName: string;
+	props: Record<string, unknown>;
+	source?: FiberSource | null;
+	// Composite components that rendered this element, outermost first
+	ancestors?: FiberAncestor[];
+	snippet?: SourceSnippet | null;
+	style?: StyleContext | null;
+	tokens?: TokenMatch[] | null;
+	accessibility?: AccessibilityContext | null;
+	state?: ComponentState | null;
+	// CSS path to the element, set when no source location could be found
+	domPath?: string | null;
+}
+
+// Lightweight summary shown in the hover label while selecting
+export interface InspectorInfo {
+	componentName: string;
+	// Nearest user component that rendered the element
+	ownerName: string | null;
+	source: FiberSource | null;
+}
+
+export interface Position {
+	x: number;
+	y: number;
+}
+
+export interface SelectionRect {
+	left: number;
+	top: number;
+	width: number;
+	height: number;
+}
+
+// Enough to find an annotated element again after a reload
+export interface ElementLocator {
+	cssPath: string;
+	// Composite component names from the root down, joined with " > "
+	componentPath: string;
+	// Nearest React key at or above the element
+	key: string | null;
+}
+
+export interface AnnotationData {
+	element?: Element;
+	elements?: Element[];
+	rect: DOMRect | SelectionRect;
+	fiberInfo: FiberInfo | FiberInfo[] | null;
+	id: number;
+	mode?: string;
+	comment?: string;
+	// Pathname the annotation was made on
+	route?: string;
+	locators?: ElementLocator[];
+	// PNG data URL of the annotated region
+	screenshot?: string;
+}
+
+export type ToolbarMode = "single-select" | "multi-comment" | "draw-select";
+
+// Screen corner or edge the toolbar starts docked to
+export type ToolbarDock =
+	| "top-left"
+	| "top-center"
+	| "top-right"
+	| "bottom-left"
+	| "bottom-center"
+	| "bottom-right";
+
+export type ToolbarTheme = "light" | "dark" | "system";
+
+// Where finished prompts are delivered
+export type OutputTarget = "clipboard" | "bridge" | "callback";
+
+// A prompt produced by the toolbar, as passed to `onCopy`
+export interface CopyEvent {
+	prompt: string;
+	// Id of the formatter that produced the prompt
+	format: string;
+	annotations: AnnotationData[];
+}
+
+// Payloads of the events a toolbar handle can subscribe to
+export interface AIToolbarEvents {
+	annotate: AnnotationData;
+	copy: CopyEvent;
+}
+
+// Programmatic control of a mounted toolbar, from `useAIToolbar()` or a ref
+export interface AIToolbarHandle {
+	mode: ToolbarMode | null;
+	annotations: AnnotationData[];
+	// Enter or leave a mode. Multi-comment annotations are kept, so leaving
+	// only pauses the session.
+	start: (mode: ToolbarMode) => void;
+	stop: () => void;
+	clearAnnotations: () => void;
+	// Add an annotation for the element to the multi-comment list
+	annotate: (
+		element: Element,
+		options?: { comment?: string },
+	) => Promise<AnnotationData | null>;
+	// Prompt for the given annotations, the current ones by default
+	formatPrompt: (annotations?: AnnotationData[]) => string;
+	// Send a prompt to the configured outputs. Resolves to whether it was
+	// copied to the clipboard.
+	copy: (annotations?: AnnotationData[]) => Promise<boolean>;
+	subscribe: <E extends keyof AIToolbarEvents>(
+		event: E,
+		listener: (payload: AIToolbarEvents[E]) => void,
+	) => () => void;
+}
+
+export interface AnnotationScreenshot {
+	annotationId: number;
+	dataUrl: string;
+}
+
+// JSON-safe annotation shape used by the JSON formatter and the dev bridge
+export interface SerializedFiberInfo {
+	componentName: string;
+	source: FiberSource | null;
+	ancestors: FiberAncestor[];
+	props: Record<string, unknown>;
+	snippet?: SourceSnippet | null;
+	style?: StyleContext | null;
+	tokens?: TokenMatch[] | null;
+	accessibility?: AccessibilityContext | null;
+	state?: ComponentState | null;
+	domPath?: string | null;
+}
+
+export interface SerializedAnnotation {
+	id: number;
+	mode: string | null;
+	comment: string | null;
+	route?: string | null;
+	rect: SelectionRect;
+	fiberInfo: SerializedFiberInfo[];
+}
+
+export interface BridgeEntry {
+	id: string;
+	createdAt: string;
+	url: string;
+	prompt: string;
+	annotations: SerializedAnnotation[];
+	// Screenshot files written next to the queue, relative to the project
+	screenshots?: string[];
+}